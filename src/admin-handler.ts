@@ -0,0 +1,224 @@
+import type {
+  Context,
+  LambdaFunctionURLEventWithIAMAuthorizer,
+  LambdaFunctionURLResult,
+} from 'aws-lambda';
+import { Temporal } from 'temporal-polyfill';
+import { z } from 'zod';
+import { expediteDeletion } from './expedite.ts';
+import { recordTransition } from './ledger.ts';
+import { logger } from './logger.ts';
+import {
+  deleteSchedule,
+  findSchedulePage,
+  getSchedule,
+  updateSchedule,
+} from './scheduling.ts';
+import type { ScheduledDeletion } from './types.ts';
+
+/**
+ * Query of the listing of the pending deletions, pages are kept small enough
+ * to be read within the timeout of the function
+ */
+const ListRequestSchema = z.object({
+  prefix: z.string().optional(),
+  region: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  nextToken: z.string().optional(),
+});
+
+const PostponeRequestSchema = z.object({
+  deletionDate: z.iso.datetime({ offset: true }),
+});
+
+/**
+ * Build the JSON response of a request
+ *
+ * @param statusCode - The HTTP status code
+ * @param body - The body, serialized as JSON
+ */
+const respond = (
+  statusCode: number,
+  body: unknown
+): LambdaFunctionURLResult => ({
+  statusCode,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+/**
+ * Serialize a pending deletion for the responses of the API
+ *
+ * @param schedule - The pending deletion
+ */
+const toDeletion = ({ deletionDate, ...schedule }: ScheduledDeletion) => ({
+  ...schedule,
+  deletionDate: deletionDate?.toString(),
+});
+
+/**
+ * List a page of the pending deletions, with the token of the next page when
+ * there may be more
+ *
+ * @param query - The query string parameters of the request
+ */
+const listDeletions = async (query: Record<string, string | undefined>) => {
+  const request = ListRequestSchema.safeParse(query);
+  if (!request.success) {
+    return respond(400, { message: z.prettifyError(request.error) });
+  }
+  const page = await findSchedulePage(request.data);
+  if (!page) {
+    return respond(400, { message: 'Invalid nextToken' });
+  }
+
+  return respond(200, {
+    deletions: page.schedules.map(toDeletion),
+    nextToken: page.nextToken,
+  });
+};
+
+/**
+ * Cancel a pending deletion, the log group is kept
+ *
+ * The cancellation is held in the ledger, so that the sweep and the
+ * reconciler don't schedule the deletion of the log group again.
+ *
+ * @param schedule - The pending deletion
+ */
+const cancelDeletion = async (schedule: ScheduledDeletion) => {
+  const {
+    scheduleName,
+    logGroupName,
+    region,
+    ruleName,
+    correlationId,
+    accountId,
+  } = schedule;
+  await deleteSchedule(scheduleName);
+  await recordTransition({
+    logGroupName,
+    region,
+    ruleName,
+    correlationId,
+    accountId,
+    state: 'SKIPPED',
+    reason: 'Deletion cancelled through the admin API',
+    hold: 'cancelled',
+  });
+  logger.info('Cancelled deletion', { scheduleName, logGroupName });
+
+  return respond(200, { cancelled: toDeletion(schedule) });
+};
+
+/**
+ * Move a pending deletion to a new date
+ *
+ * @param schedule - The pending deletion
+ * @param body - The body of the request, with the new deletion date
+ */
+const postponeDeletion = async (schedule: ScheduledDeletion, body: unknown) => {
+  const request = PostponeRequestSchema.safeParse(body);
+  if (!request.success) {
+    return respond(400, { message: z.prettifyError(request.error) });
+  }
+  const deletionDate = Temporal.Instant.from(request.data.deletionDate);
+  if (Temporal.Instant.compare(deletionDate, Temporal.Now.instant()) <= 0) {
+    return respond(400, { message: 'The deletion date must be in the future' });
+  }
+
+  const { logGroupName, region, ruleName, correlationId, accountId } = schedule;
+  await updateSchedule({ ...schedule, deletionDate });
+  await recordTransition({
+    logGroupName,
+    region,
+    ruleName,
+    correlationId,
+    accountId,
+    state: 'SCHEDULED',
+    reason: 'Deletion postponed through the admin API',
+    deletionDate,
+  });
+  logger.info('Postponed deletion', {
+    scheduleName: schedule.scheduleName,
+    logGroupName,
+    deletionDate: deletionDate.toString(),
+  });
+
+  return respond(200, { postponed: toDeletion({ ...schedule, deletionDate }) });
+};
+
+/**
+ * Parse the JSON body of a request, `undefined` if it's missing or invalid
+ *
+ * @param event - The Function URL event
+ */
+const parseBody = ({
+  body,
+  isBase64Encoded,
+}: LambdaFunctionURLEventWithIAMAuthorizer) => {
+  if (!body) return;
+  try {
+    return JSON.parse(
+      isBase64Encoded ? Buffer.from(body, 'base64').toString() : body
+    );
+  } catch {
+    return;
+  }
+};
+
+/**
+ * Admin API to manage the pending deletions, exposed through a Function URL
+ * with IAM authentication
+ *
+ * - `GET /deletions?prefix=&region=&limit=&nextToken=` lists a page of the
+ *   pending deletions
+ * - `DELETE /deletions/{scheduleName}` cancels a deletion
+ * - `POST /deletions/{scheduleName}/postpone` moves a deletion to the
+ *   `deletionDate` of the body
+ * - `POST /deletions/{scheduleName}/delete-now` sends the log group to the
+ *   deletion queue right away
+ */
+export const handler = async (
+  event: LambdaFunctionURLEventWithIAMAuthorizer,
+  context: Context
+): Promise<LambdaFunctionURLResult> => {
+  logger.addContext(context);
+  const {
+    http: { method },
+    authorizer,
+  } = event.requestContext;
+  logger.appendKeys({ caller: authorizer?.iam?.userArn });
+
+  const [collection, scheduleName, action, ...rest] = event.rawPath
+    .split('/')
+    .filter(Boolean);
+  if (collection !== 'deletions' || rest.length > 0) {
+    return respond(404, { message: 'Not found' });
+  }
+  if (scheduleName === undefined) {
+    if (method !== 'GET') {
+      return respond(405, { message: 'Method not allowed' });
+    }
+    return listDeletions(event.queryStringParameters ?? {});
+  }
+
+  const route = `${method} ${action ?? ''}`.trim();
+  if (!['DELETE', 'POST postpone', 'POST delete-now'].includes(route)) {
+    return respond(404, { message: 'Not found' });
+  }
+  const schedule = await getSchedule(scheduleName);
+  if (!schedule) {
+    return respond(404, { message: `No pending deletion ${scheduleName}` });
+  }
+
+  if (route === 'DELETE') return cancelDeletion(schedule);
+  if (route === 'POST postpone') {
+    return postponeDeletion(schedule, parseBody(event));
+  }
+  await expediteDeletion({
+    schedule,
+    reason: 'Deletion expedited through the admin API',
+  });
+  return respond(202, { enqueued: toDeletion(schedule) });
+};
@@ -0,0 +1,123 @@
+import { getStringFromEnv } from '@aws-lambda-powertools/commons/utils/env';
+import {
+  CreateExportTaskCommand,
+  DescribeExportTasksCommand,
+  LimitExceededException,
+  type LogGroup,
+} from '@aws-sdk/client-cloudwatch-logs';
+import { getRegionalCwClient } from './cloudwatch.ts';
+import { logger } from './logger.ts';
+
+// The bucket is only created when a cleanup rule archives log groups
+const archiveBucketName = getStringFromEnv({
+  key: 'ARCHIVE_BUCKET_NAME',
+  defaultValue: '',
+});
+
+/**
+ * Tell why a log group can't be archived, or `undefined` when it can
+ *
+ * The archive bucket is only deployed along with an `archive` rule, so rules
+ * added later through the rules source may have no bucket to export to. The
+ * bucket policy only lets CloudWatch Logs write on behalf of the account of
+ * the app, and export tasks can only write to buckets in the region of the
+ * log group.
+ *
+ * @param param - options object
+ * @param param.region - The AWS region where the log group is located
+ * @param param.accountId - The member account of the log group, if any
+ */
+const getArchiveRestriction = ({
+  region,
+  accountId,
+}: {
+  region: string;
+  accountId?: string;
+}) => {
+  if (!archiveBucketName) {
+    return 'Archive bucket is not configured, deploy the stack with an archive rule to create it';
+  }
+  if (accountId) {
+    return `Log groups of member account ${accountId} can't be archived, only the ones of the account of the archive bucket`;
+  }
+  if (region !== process.env.AWS_REGION) {
+    return `Log groups can only be archived in ${process.env.AWS_REGION}, the region of the archive bucket`;
+  }
+
+  return undefined;
+};
+
+/**
+ * Start exporting all the log events of a log group to the archive bucket
+ *
+ * CloudWatch Logs only runs one export task at a time per account, so
+ * `undefined` is returned when another task is still running.
+ *
+ * @param param - options object
+ * @param param.logGroup - The log group as returned by `DescribeLogGroups`
+ * @param param.region - The AWS region where the log group is located
+ * @param param.accountId - The member account of the log group, if any
+ */
+const startExportTask = async ({
+  logGroup: { logGroupName, creationTime = 0 },
+  region,
+  accountId,
+}: {
+  logGroup: LogGroup;
+  region: string;
+  accountId?: string;
+}) => {
+  const restriction = getArchiveRestriction({ region, accountId });
+  if (restriction) {
+    throw new Error(restriction);
+  }
+
+  try {
+    const { taskId } = await getRegionalCwClient(region).send(
+      new CreateExportTaskCommand({
+        logGroupName,
+        from: creationTime,
+        to: Date.now(),
+        destination: archiveBucketName,
+        destinationPrefix: `${region}/${logGroupName?.replace(/^\//, '')}/${creationTime}`,
+      })
+    );
+    logger.info('Started exporting log group to the archive bucket', {
+      logGroupName,
+      taskId,
+    });
+
+    return taskId;
+  } catch (error) {
+    if (error instanceof LimitExceededException) {
+      logger.info('Another export task is running, retrying later', {
+        logGroupName,
+      });
+      return;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Get the status of an export task, e.g. `RUNNING` or `COMPLETED`
+ *
+ * @param param - options object
+ * @param param.taskId - The id of the export task
+ * @param param.region - The AWS region where the task runs
+ */
+const getExportTaskStatus = async ({
+  taskId,
+  region,
+}: {
+  taskId: string;
+  region: string;
+}) => {
+  const { exportTasks } = await getRegionalCwClient(region).send(
+    new DescribeExportTasksCommand({ taskId })
+  );
+
+  return exportTasks?.[0]?.status?.code;
+};
+
+export { getArchiveRestriction, getExportTaskStatus, startExportTask };
@@ -0,0 +1,235 @@
+import { addUserAgentMiddleware } from '@aws-lambda-powertools/commons';
+import {
+  getBooleanFromEnv,
+  getStringFromEnv,
+} from '@aws-lambda-powertools/commons/utils/env';
+import {
+  ListTagsForResourceCommand,
+  type LogGroup,
+} from '@aws-sdk/client-cloudwatch-logs';
+import { SendMessageCommand, SQSClient } from '@aws-sdk/client-sqs';
+import { Temporal } from 'temporal-polyfill';
+import { z } from 'zod';
+import { getArchiveRestriction } from './archive.ts';
+import { getCleanupRules } from './cleanup-rules.ts';
+import { getRegionalCwClient } from './cloudwatch.ts';
+import { computeDeletionDate, resolveDeletionDays } from './deletion-policy.ts';
+import { getLedgerEntry } from './ledger.ts';
+import { logger } from './logger.ts';
+import { hasRequiredTags, hasTagConditions } from './matching.ts';
+import { getScheduleName } from './schedule-names.ts';
+import { upsertSchedule } from './scheduling.ts';
+import type { RuleAction } from './types.ts';
+
+const sqsClient = new SQSClient({
+  retryMode: 'adaptive',
+  maxAttempts: 5,
+});
+addUserAgentMiddleware(sqsClient, 'NO-OP');
+
+const deletionQueueUrl = getStringFromEnv({ key: 'DELETION_QUEUE_URL' });
+const dryRun = getBooleanFromEnv({ key: 'DRY_RUN', defaultValue: false });
+const configuredRegions = z.array(z.string()).parse(
+  JSON.parse(
+    getStringFromEnv({
+      key: 'REGIONS',
+      defaultValue: JSON.stringify([process.env.AWS_REGION]),
+    })
+  )
+);
+
+type DeletionPlan =
+  | { outcome: 'notMatched' | 'ignored' | 'skipped' }
+  | {
+      outcome: 'due';
+      scheduleName: string;
+      deletionDate: Temporal.Instant;
+      logGroupName: string;
+      region: string;
+      ruleName: string;
+      ruleAction: RuleAction;
+    };
+
+/**
+ * Fetch the current tags of a log group
+ *
+ * @param param - options object
+ * @param param.region - AWS region where the log group is located
+ * @param param.logGroupArn - ARN of the log group, without the trailing `:*`
+ */
+const fetchLogGroupTags = async ({
+  region,
+  logGroupArn,
+}: {
+  region: string;
+  logGroupArn?: string;
+}) => {
+  const { tags } = await getRegionalCwClient(region).send(
+    new ListTagsForResourceCommand({ resourceArn: logGroupArn })
+  );
+
+  return tags ?? {};
+};
+
+/**
+ * Whether the ledger holds the deletion of a log group back, because an
+ * operator cancelled it or, while dry-run mode is on, because it would already
+ * have been deleted
+ *
+ * The hold only applies to the lifecycle of the log group it was recorded
+ * for, a log group re-created with the same name is planned again.
+ *
+ * @param param - options object
+ * @param param.logGroupName - The name of the log group
+ * @param param.region - The AWS region where the log group is located
+ * @param param.creationTime - When the log group was created
+ */
+const isDeletionHeld = async ({
+  logGroupName,
+  region,
+  creationTime,
+}: {
+  logGroupName: string;
+  region: string;
+  creationTime: number;
+}) => {
+  const entry = await getLedgerEntry({ logGroupName, region });
+  if (entry?.state !== 'SKIPPED' || entry.hold === undefined) return false;
+  if (entry.creationTime !== undefined && entry.creationTime !== creationTime) {
+    return false;
+  }
+
+  return entry.hold === 'cancelled' || dryRun;
+};
+
+/**
+ * Apply the cleanup rules to an existing log group and work out when, if at
+ * all, it should be deleted
+ *
+ * @param param - options object
+ * @param param.logGroup - The log group as returned by `DescribeLogGroups`
+ * @param param.region - The AWS region where the log group is located
+ * @param param.readOnly - Whether to leave never-expiring log groups untouched instead of applying the default retention, defaults to `false`
+ */
+const planLogGroupDeletion = async ({
+  logGroup: { logGroupName, logGroupArn, creationTime, retentionInDays },
+  region,
+  readOnly = false,
+}: {
+  logGroup: LogGroup;
+  region: string;
+  readOnly?: boolean;
+}): Promise<DeletionPlan> => {
+  if (!logGroupName) return { outcome: 'notMatched' };
+
+  // Tags are only looked up when one of the rules matching by name needs them
+  const { findRulesByName } = await getCleanupRules();
+  const candidates = findRulesByName(logGroupName);
+  const tags = candidates.some(hasTagConditions)
+    ? await fetchLogGroupTags({ region, logGroupArn })
+    : {};
+  const rule = candidates.find((candidate) =>
+    hasRequiredTags(candidate, { logGroupName, tags })
+  );
+  if (!rule) return { outcome: 'notMatched' };
+  if (rule.action === 'ignore') return { outcome: 'ignored' };
+  const archiveRestriction =
+    rule.action === 'archive' ? getArchiveRestriction({ region }) : undefined;
+  if (archiveRestriction) {
+    logger.warn("Log group of an archive rule can't be archived, skipping", {
+      logGroupName,
+      ruleName: rule.name,
+      reason: archiveRestriction,
+    });
+    return { outcome: 'skipped' };
+  }
+
+  if (creationTime === undefined) {
+    logger.warn('Log group creation time is not available, skipping', {
+      logGroupName,
+    });
+    return { outcome: 'skipped' };
+  }
+  if (await isDeletionHeld({ logGroupName, region, creationTime })) {
+    logger.info('Deletion of the log group is held in the ledger, skipping', {
+      logGroupName,
+    });
+    return { outcome: 'skipped' };
+  }
+  const days = await resolveDeletionDays({
+    logGroupName,
+    region,
+    retentionInDays,
+    deletionDelayDays: rule.deletionDelayDays,
+    // Existing log groups are handled in bulk, so skipped ones are only counted
+    notify: false,
+    applyRetention: !readOnly,
+  });
+  if (days === undefined) return { outcome: 'skipped' };
+
+  return {
+    outcome: 'due',
+    scheduleName: getScheduleName({ logGroupName, region, creationTime }),
+    deletionDate: computeDeletionDate({ creationTime, days }),
+    logGroupName,
+    region,
+    ruleName: rule.name,
+    ruleAction: rule.action === 'archive' ? 'archive' : 'delete',
+  };
+};
+
+/**
+ * Schedule the deletion of a log group or, if it's already past due, send it
+ * to the deletion queue directly
+ *
+ * @param plan - The deletion plan of the log group
+ */
+const applyDeletionPlan = async ({
+  scheduleName,
+  deletionDate,
+  logGroupName,
+  region,
+  ruleName,
+  ruleAction,
+}: Extract<DeletionPlan, { outcome: 'due' }>) => {
+  // Schedules must fire in the future, so overdue log groups and the ones due
+  // in the next few minutes skip the scheduler altogether
+  const cutoff = Temporal.Now.instant().add({ minutes: 5 });
+  if (Temporal.Instant.compare(deletionDate, cutoff) <= 0) {
+    await sqsClient.send(
+      new SendMessageCommand({
+        QueueUrl: deletionQueueUrl,
+        MessageBody: JSON.stringify({
+          logGroupName,
+          awsRegion: region,
+          ruleName,
+          ruleAction,
+        }),
+      })
+    );
+    logger.info('Log group is past due, sent it to the deletion queue', {
+      logGroupName,
+      ruleName,
+      deletionDate: deletionDate.toString(),
+    });
+    return 'enqueued';
+  }
+
+  await upsertSchedule({
+    scheduleName,
+    deletionDate,
+    logGroupName,
+    region,
+    ruleName,
+    ruleAction,
+  });
+  return 'scheduled';
+};
+
+export type { DeletionPlan };
+export {
+  applyDeletionPlan,
+  configuredRegions,
+  fetchLogGroupTags,
+  planLogGroupDeletion,
+};
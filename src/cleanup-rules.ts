@@ -0,0 +1,113 @@
+import {
+  getNumberFromEnv,
+  getStringFromEnv,
+} from '@aws-lambda-powertools/commons/utils/env';
+import { getAppConfig } from '@aws-lambda-powertools/parameters/appconfig';
+import { getParameter } from '@aws-lambda-powertools/parameters/ssm';
+import { z } from 'zod';
+import { logger } from './logger.ts';
+import { createRuleMatcher, createRuleNameMatcher } from './matching.ts';
+import { type CleanupRule, CleanupRuleSchema } from './schemas/cleanup-rule.ts';
+
+const CleanupRulesSchema = z.array(CleanupRuleSchema);
+
+// Rules deployed with the stack, used until the rules of the parameter or
+// AppConfig profile are loaded, and whenever they can't be
+const deployedRules = CleanupRulesSchema.parse(
+  JSON.parse(getStringFromEnv({ key: 'CLEANUP_RULES' }))
+);
+const rulesParameterName = getStringFromEnv({
+  key: 'RULES_PARAMETER_NAME',
+  defaultValue: '',
+});
+const rulesAppConfigProfile = getStringFromEnv({
+  key: 'RULES_APPCONFIG_PROFILE',
+  defaultValue: '',
+});
+const rulesAppConfigApplication = getStringFromEnv({
+  key: 'RULES_APPCONFIG_APPLICATION',
+  defaultValue: '',
+});
+const rulesAppConfigEnvironment = getStringFromEnv({
+  key: 'RULES_APPCONFIG_ENVIRONMENT',
+  defaultValue: '',
+});
+const rulesMaxAge = getNumberFromEnv({
+  key: 'RULES_MAX_AGE_SECONDS',
+  defaultValue: 300,
+});
+
+/**
+ * The ordered cleanup rules along with the functions matching log groups
+ * against them
+ */
+type RuleSet = {
+  cleanupRules: CleanupRule[];
+  /** Find the first rule matching a log group by name and tags */
+  findMatchingRule: ReturnType<typeof createRuleMatcher>;
+  /** Find the rules matching a log group by name, regardless of their tags */
+  findRulesByName: ReturnType<typeof createRuleNameMatcher>;
+};
+
+const buildRuleSet = (cleanupRules: CleanupRule[]): RuleSet => ({
+  cleanupRules,
+  findMatchingRule: createRuleMatcher(cleanupRules),
+  findRulesByName: createRuleNameMatcher(cleanupRules),
+});
+
+let ruleSet = buildRuleSet(deployedRules);
+let loadedValue: unknown;
+
+/**
+ * Fetch the rules from the SSM parameter or the AppConfig profile, the
+ * Parameters utility caches them for `RULES_MAX_AGE_SECONDS`
+ */
+const fetchRules = () =>
+  rulesParameterName
+    ? getParameter(rulesParameterName, {
+        maxAge: rulesMaxAge,
+        transform: 'json',
+      })
+    : getAppConfig(rulesAppConfigProfile, {
+        application: rulesAppConfigApplication,
+        environment: rulesAppConfigEnvironment,
+        maxAge: rulesMaxAge,
+        transform: 'json',
+      });
+
+/**
+ * Get the current cleanup rules
+ *
+ * When the rules live in an SSM parameter or an AppConfig profile, changes
+ * are picked up once the cached value expires, without a redeploy. Rules that
+ * can't be loaded or are invalid are logged, and the last valid rules are
+ * used instead, starting with the ones deployed with the stack.
+ */
+const getCleanupRules = async (): Promise<RuleSet> => {
+  if (!rulesParameterName && !rulesAppConfigProfile) return ruleSet;
+
+  try {
+    const value = await fetchRules();
+    // Cached values are returned as the same object, so the rules are only
+    // validated and compiled again when they changed
+    if (value !== loadedValue) {
+      loadedValue = value;
+      ruleSet = buildRuleSet(CleanupRulesSchema.parse(value));
+      logger.info('Loaded cleanup rules', {
+        ruleNames: ruleSet.cleanupRules.map(({ name }) => name),
+      });
+    }
+  } catch (error) {
+    logger.error(
+      'Cleanup rules could not be loaded, using the last valid ones',
+      {
+        error,
+        ruleNames: ruleSet.cleanupRules.map(({ name }) => name),
+      }
+    );
+  }
+
+  return ruleSet;
+};
+
+export { getCleanupRules };
@@ -1,26 +1,149 @@
 import { addUserAgentMiddleware } from '@aws-lambda-powertools/commons';
-import { CloudWatchLogsClient } from '@aws-sdk/client-cloudwatch-logs';
-import { logger } from './logger.js';
+import { getStringFromEnv } from '@aws-lambda-powertools/commons/utils/env';
+import {
+  CloudWatchLogsClient,
+  DescribeLogGroupsCommand,
+  DescribeLogStreamsCommand,
+  OrderBy,
+} from '@aws-sdk/client-cloudwatch-logs';
+import { fromTemporaryCredentials } from '@aws-sdk/credential-providers';
+import { logger } from './logger.ts';
+import { tracer } from './tracer.ts';
 
 const cwClientMap = new Map<string, CloudWatchLogsClient>();
 
+// Both are only set in multi-account mode, where the log groups of the member
+// accounts are reached through the role deployed by their spoke stack
+const hubAccountId = getStringFromEnv({
+  key: 'HUB_ACCOUNT_ID',
+  defaultValue: '',
+});
+const spokeRoleName = getStringFromEnv({
+  key: 'SPOKE_ROLE_NAME',
+  defaultValue: '',
+});
+
+/**
+ * Get the member account a log group belongs to, from the recipient account
+ * of its CloudTrail event, or `undefined` for the log groups of the account
+ * the app is deployed to and when multi-account mode is off
+ *
+ * @param recipientAccountId - The account that received the API call
+ */
+const getMemberAccountId = (recipientAccountId?: string) =>
+  spokeRoleName && recipientAccountId && recipientAccountId !== hubAccountId
+    ? recipientAccountId
+    : undefined;
+
 /**
  * Get or create a CloudWatchLogsClient for the given AWS region
+ *
+ * The clients for member accounts assume the spoke role of the account.
+ *
+ * @param region - The AWS region of the log groups
+ * @param accountId - The member account of the log groups, if any
  */
-const getRegionalCwClient = (region: string): CloudWatchLogsClient => {
-  let cwClient = cwClientMap.get(region);
+const getRegionalCwClient = (
+  region: string,
+  accountId?: string
+): CloudWatchLogsClient => {
+  const key = accountId ? `${accountId}:${region}` : region;
+  let cwClient = cwClientMap.get(key);
   if (!cwClient) {
-    logger.debug('Creating new CloudWatchLogsClient for region', { region });
-    cwClient = new CloudWatchLogsClient({
+    logger.debug('Creating new CloudWatchLogsClient for region', {
       region,
-      retryMode: 'adaptive',
-      maxAttempts: 5,
+      accountId,
     });
+    if (accountId && !spokeRoleName) {
+      throw new Error(
+        `Log group belongs to member account ${accountId}, but multi-account mode is off`
+      );
+    }
+    cwClient = tracer.captureAWSv3Client(
+      new CloudWatchLogsClient({
+        region,
+        retryMode: 'adaptive',
+        maxAttempts: 5,
+        ...(accountId && {
+          credentials: fromTemporaryCredentials({
+            params: {
+              RoleArn: `arn:aws:iam::${accountId}:role/${spokeRoleName}`,
+              RoleSessionName: 'log-group-cleanup',
+            },
+          }),
+        }),
+      })
+    );
     addUserAgentMiddleware(cwClient, 'NO-OP');
-    cwClientMap.set(region, cwClient);
+    cwClientMap.set(key, cwClient);
   }
 
   return cwClient;
 };
 
-export { getRegionalCwClient };
+/**
+ * Find the log group with the given name, or `undefined` if it doesn't exist
+ *
+ * @param param - options object
+ * @param param.region - AWS region where the log group is located
+ * @param param.logGroupName - Name of the log group to look up
+ * @param param.accountId - Member account of the log group, if any
+ */
+const findLogGroup = async ({
+  region,
+  logGroupName,
+  accountId,
+}: {
+  region: string;
+  logGroupName: string;
+  accountId?: string;
+}) => {
+  const response = await getRegionalCwClient(region, accountId).send(
+    new DescribeLogGroupsCommand({
+      logGroupNamePrefix: logGroupName,
+    })
+  );
+  logger.debug('Log group info', { response: response.logGroups || [] });
+
+  return response.logGroups?.find((lg) => lg.logGroupName === logGroupName);
+};
+
+/**
+ * Get the time of the most recent log event of a log group (epoch millis),
+ * or `undefined` if it never received any
+ *
+ * CloudWatch Logs updates the last event time of log streams on an eventual
+ * consistency basis, so it can lag behind by up to an hour.
+ *
+ * @param param - options object
+ * @param param.region - AWS region where the log group is located
+ * @param param.logGroupName - Name of the log group to look up
+ * @param param.accountId - Member account of the log group, if any
+ */
+const getLastEventTime = async ({
+  region,
+  logGroupName,
+  accountId,
+}: {
+  region: string;
+  logGroupName: string;
+  accountId?: string;
+}) => {
+  const { logStreams } = await getRegionalCwClient(region, accountId).send(
+    new DescribeLogStreamsCommand({
+      logGroupName,
+      orderBy: OrderBy.LastEventTime,
+      descending: true,
+      limit: 1,
+    })
+  );
+
+  return logStreams?.[0]?.lastEventTimestamp;
+};
+
+export {
+  findLogGroup,
+  getLastEventTime,
+  getMemberAccountId,
+  getRegionalCwClient,
+};
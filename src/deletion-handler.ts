@@ -5,18 +5,67 @@ import {
 } from '@aws-lambda-powertools/batch';
 import { parser } from '@aws-lambda-powertools/batch/parser';
 import type { ParsedRecord } from '@aws-lambda-powertools/batch/types';
+import { addUserAgentMiddleware } from '@aws-lambda-powertools/commons';
+import {
+  getBooleanFromEnv,
+  getNumberFromEnv,
+  getStringFromEnv,
+} from '@aws-lambda-powertools/commons/utils/env';
+import { MetricUnit } from '@aws-lambda-powertools/metrics';
 import {
   DeleteLogGroupCommand,
+  ListTagsForResourceCommand,
+  type LogGroup,
   ResourceNotFoundException,
 } from '@aws-sdk/client-cloudwatch-logs';
+import { SendMessageCommand, SQSClient } from '@aws-sdk/client-sqs';
 import type { SQSHandler, SQSRecord } from 'aws-lambda';
-import { z } from 'zod';
-import { getRegionalCwClient } from './cloudwatch.js';
-import { logger } from './logger.js';
+import { Temporal } from 'temporal-polyfill';
+import { getExportTaskStatus, startExportTask } from './archive.ts';
+import { getCleanupRules } from './cleanup-rules.ts';
+import {
+  findLogGroup,
+  getLastEventTime,
+  getRegionalCwClient,
+} from './cloudwatch.ts';
+import { recordTransition } from './ledger.ts';
+import { logger } from './logger.ts';
+import { addBusinessMetric, metrics } from './metrics.ts';
+import { getDeletionHold } from './protection.ts';
+import { getScheduleName } from './schedule-names.ts';
+import { upsertSchedule } from './scheduling.ts';
+import {
+  type DeletionMessage,
+  DeletionMessageSchema,
+} from './schemas/deletion-message.ts';
+import { traceHandler, traceSubsegment } from './tracer.ts';
+import type { RuleAction } from './types.ts';
 
-const DeletionMessageSchema = z.object({
-  logGroupName: z.string(),
-  awsRegion: z.string(),
+const sqsClient = new SQSClient({
+  retryMode: 'adaptive',
+  maxAttempts: 5,
+});
+addUserAgentMiddleware(sqsClient, 'NO-OP');
+
+/**
+ * Delay before checking again on a running export task
+ */
+const EXPORT_POLL_DELAY_SECONDS = 60;
+
+/**
+ * Delay before trying again to start an export task while another one runs
+ */
+const EXPORT_BUSY_DELAY_SECONDS = 300;
+
+const dryRun = getBooleanFromEnv({ key: 'DRY_RUN', defaultValue: false });
+const deletionQueueUrl = getStringFromEnv({ key: 'DELETION_QUEUE_URL' });
+const quietPeriodHours = getNumberFromEnv({
+  key: 'QUIET_PERIOD_HOURS',
+  defaultValue: 0,
+});
+const maxPostponements = getNumberFromEnv({
+  key: 'MAX_POSTPONEMENTS',
+  defaultValue: 0,
 });
 
 const processor = new BatchProcessor(EventType.SQS, {
@@ -26,35 +75,499 @@ const processor = new BatchProcessor(EventType.SQS, {
   logger,
 });
 
+/**
+ * Put a message back on the deletion queue, to be processed again after
+ * the given delay
+ *
+ * @param message - The message to send
+ * @param delaySeconds - How long to wait before the message is delivered
+ */
+const requeue = async (message: DeletionMessage, delaySeconds: number) => {
+  await sqsClient.send(
+    new SendMessageCommand({
+      QueueUrl: deletionQueueUrl,
+      MessageBody: JSON.stringify(message),
+      DelaySeconds: delaySeconds,
+    })
+  );
+};
+
+/**
+ * Export the log group to the archive bucket, and tell whether the export
+ * completed so the log group can be deleted
+ *
+ * Rather than waiting for the export, the message is put back on the queue
+ * with the id of the export task and checked again later. The same applies
+ * while the export task of another log group is running, since CloudWatch
+ * Logs only runs one at a time.
+ *
+ * @param param - options object
+ * @param param.logGroup - The log group as returned by `DescribeLogGroups`
+ * @param param.message - The deletion message being processed
+ */
+const archiveLogGroup = async ({
+  logGroup,
+  message,
+}: {
+  logGroup: LogGroup;
+  message: DeletionMessage;
+}) => {
+  const { awsRegion: region, exportTaskId, accountId } = message;
+  if (exportTaskId === undefined) {
+    const taskId = await startExportTask({ logGroup, region, accountId });
+    await requeue(
+      { ...message, exportTaskId: taskId },
+      taskId ? EXPORT_POLL_DELAY_SECONDS : EXPORT_BUSY_DELAY_SECONDS
+    );
+    return false;
+  }
+
+  const status = await getExportTaskStatus({ taskId: exportTaskId, region });
+  if (status === 'COMPLETED') {
+    logger.info('Log group archived', {
+      logGroupName: logGroup.logGroupName,
+      exportTaskId,
+    });
+    addBusinessMetric({
+      name: 'LogGroupsArchived',
+      region,
+      ruleName: message.ruleName,
+    });
+    return true;
+  }
+  if (status === 'PENDING' || status === 'RUNNING') {
+    await requeue(message, EXPORT_POLL_DELAY_SECONDS);
+    return false;
+  }
+
+  throw new Error(`Export task ${exportTaskId} ended with status ${status}`);
+};
+
+/**
+ * Resolve the action of the rule the deletion was scheduled for
+ *
+ * Deletions scheduled before the action was carried only have the name of the
+ * rule, which is looked up in the current rules. `undefined` is returned when
+ * the rule no longer exists, so that a log group that had to be archived is
+ * never deleted without its log data.
+ *
+ * @param message - The deletion message being processed
+ */
+const resolveRuleAction = async ({
+  ruleName,
+  ruleAction,
+}: DeletionMessage): Promise<RuleAction | undefined> => {
+  if (ruleAction) return ruleAction;
+  // Schedules created before cleanup rules were introduced only delete
+  if (ruleName === undefined) return 'delete';
+
+  const { cleanupRules } = await getCleanupRules();
+  const rule = cleanupRules.find(({ name }) => name === ruleName);
+  if (!rule) return undefined;
+
+  return rule.action === 'archive' ? 'archive' : 'delete';
+};
+
+/**
+ * Move the deletion schedule of the log group to a later date
+ *
+ * @param param - options object
+ * @param param.logGroup - The log group as returned by `DescribeLogGroups`
+ * @param param.message - The deletion message being processed
+ * @param param.deletionDate - When the log group should be deleted instead
+ */
+const rescheduleDeletion = async ({
+  logGroup: { creationTime },
+  message: {
+    logGroupName,
+    awsRegion,
+    ruleName,
+    ruleAction,
+    dryRun,
+    postponeCount,
+    correlationId,
+    accountId,
+  },
+  deletionDate,
+}: {
+  logGroup: LogGroup;
+  message: DeletionMessage;
+  deletionDate: Temporal.Instant;
+}) => {
+  if (creationTime === undefined) {
+    throw new Error('Log group creation time is not available');
+  }
+  await upsertSchedule({
+    scheduleName: getScheduleName({
+      logGroupName,
+      region: awsRegion,
+      creationTime,
+      accountId,
+    }),
+    deletionDate,
+    logGroupName,
+    region: awsRegion,
+    ruleName,
+    ruleAction,
+    dryRun,
+    postponeCount,
+    correlationId,
+    accountId,
+  });
+};
+
+/**
+ * Tell whether the log group received events within the quiet period and its
+ * deletion should be postponed, unless it was already postponed too many times
+ *
+ * @param param - options object
+ * @param param.message - The deletion message being processed
+ */
+const isStillActive = async ({
+  logGroupName,
+  awsRegion,
+  postponeCount = 0,
+  accountId,
+}: DeletionMessage) => {
+  if (quietPeriodHours <= 0) return false;
+
+  const lastEventTime = await getLastEventTime({
+    region: awsRegion,
+    logGroupName,
+    accountId,
+  });
+  if (
+    lastEventTime === undefined ||
+    Date.now() - lastEventTime >= quietPeriodHours * 3_600_000
+  ) {
+    return false;
+  }
+  if (postponeCount >= maxPostponements) {
+    logger.warn('Log group is still active but was postponed too often', {
+      logGroupName,
+      awsRegion,
+      postponeCount,
+      lastEventTime: new Date(lastEventTime).toISOString(),
+    });
+    return false;
+  }
+
+  return true;
+};
+
 /**
  * Process a single SQS record and delete the corresponding log group
+ *
+ * Right before deleting, the current tags of the log group are checked so
+ * that engineers can protect a log group or postpone its deletion by tagging it.
+ * Log groups that received events within the quiet period are postponed too,
+ * up to a maximum number of times.
+ *
+ * In dry-run mode, or for schedules created in dry-run mode, the log group is
+ * only recorded in the logs and metrics instead of being deleted. Log groups
+ * matched by an `archive` rule are exported to S3 before being deleted.
  */
-const recordHandler = async ({
-  body: { logGroupName, awsRegion },
-}: ParsedRecord<SQSRecord, z.infer<typeof DeletionMessageSchema>>) => {
-  logger.info('Deleting log group', { logGroupName, awsRegion });
-  const cwClient = getRegionalCwClient(awsRegion);
+const processDeletion = async (message: DeletionMessage) => {
+  const {
+    logGroupName,
+    awsRegion,
+    ruleName,
+    dryRun: scheduledInDryRun,
+    correlationId,
+    accountId,
+  } = message;
+  const ledgerEntry = {
+    logGroupName,
+    region: awsRegion,
+    ruleName,
+    correlationId,
+    accountId,
+  };
+  const logGroup = await findLogGroup({
+    region: awsRegion,
+    logGroupName,
+    accountId,
+  });
+  if (!logGroup) {
+    logger.warn('Log group already deleted', {
+      logGroupName,
+      awsRegion,
+      ruleName,
+    });
+    await recordTransition({
+      ...ledgerEntry,
+      state: 'ALREADY_GONE',
+      reason: 'Log group not found when its deletion was due',
+    });
+    addBusinessMetric({
+      name: 'LogGroupsAlreadyDeleted',
+      region: awsRegion,
+      ruleName,
+    });
+    return;
+  }
+
+  const cwClient = getRegionalCwClient(awsRegion, accountId);
+  const { tags } = await cwClient.send(
+    new ListTagsForResourceCommand({ resourceArn: logGroup.logGroupArn })
+  );
+  const hold = getDeletionHold(tags ?? {});
+  if (hold?.action === 'skip') {
+    logger.info('Log group is protected, skipping deletion', {
+      logGroupName,
+      awsRegion,
+      ruleName,
+      reason: hold.reason,
+    });
+    await recordTransition({
+      ...ledgerEntry,
+      logGroup,
+      state: 'SKIPPED',
+      reason: `Log group is protected: ${hold.reason}`,
+    });
+    addBusinessMetric({
+      name: 'LogGroupsProtected',
+      region: awsRegion,
+      ruleName,
+    });
+    return;
+  }
+  if (hold?.action === 'postpone') {
+    await rescheduleDeletion({ logGroup, message, deletionDate: hold.until });
+    logger.info('Log group is kept until a later date, postponed deletion', {
+      logGroupName,
+      awsRegion,
+      ruleName,
+      keepUntil: hold.until.toString(),
+    });
+    await recordTransition({
+      ...ledgerEntry,
+      logGroup,
+      state: 'SCHEDULED',
+      reason: 'Log group is kept until a later date',
+      deletionDate: hold.until,
+    });
+    addBusinessMetric({
+      name: 'LogGroupsKept',
+      region: awsRegion,
+      ruleName,
+    });
+    return;
+  }
+
+  // Once the export of an archived log group started, it's deleted regardless
+  if (message.exportTaskId === undefined && (await isStillActive(message))) {
+    const postponeCount = (message.postponeCount ?? 0) + 1;
+    const deletionDate = Temporal.Now.instant().add({
+      hours: quietPeriodHours,
+    });
+    await rescheduleDeletion({
+      logGroup,
+      message: { ...message, postponeCount },
+      deletionDate,
+    });
+    logger.info('Log group is still receiving events, postponed deletion', {
+      logGroupName,
+      awsRegion,
+      ruleName,
+      postponeCount,
+      deletionDate: deletionDate.toString(),
+    });
+    await recordTransition({
+      ...ledgerEntry,
+      logGroup,
+      state: 'SCHEDULED',
+      reason: `Log group is still receiving events, postponed ${postponeCount} times`,
+      deletionDate,
+    });
+    addBusinessMetric({
+      name: 'LogGroupsPostponed',
+      region: awsRegion,
+      ruleName,
+    });
+    return;
+  }
+
+  if (dryRun || scheduledInDryRun) {
+    logger.info('Dry run, would have deleted log group', {
+      logGroupName,
+      awsRegion,
+      ruleName,
+      storedBytes: logGroup.storedBytes,
+      creationTime: logGroup.creationTime,
+    });
+    await recordTransition({
+      ...ledgerEntry,
+      logGroup,
+      state: 'SKIPPED',
+      reason: 'Dry run, the log group would have been deleted',
+      hold: 'dryRun',
+    });
+    addBusinessMetric({
+      name: 'DryRunLogGroupsDeleted',
+      region: awsRegion,
+      ruleName,
+    });
+    addBusinessMetric({
+      name: 'DryRunStoredBytesDeleted',
+      region: awsRegion,
+      ruleName,
+      unit: MetricUnit.Bytes,
+      value: logGroup.storedBytes ?? 0,
+    });
+    return;
+  }
+
+  const ruleAction = await resolveRuleAction(message);
+  if (ruleAction === undefined) {
+    logger.warn(
+      'Cleanup rule of the deletion no longer exists, keeping log group',
+      {
+        logGroupName,
+        awsRegion,
+        ruleName,
+      }
+    );
+    await recordTransition({
+      ...ledgerEntry,
+      logGroup,
+      state: 'SKIPPED',
+      reason: `Cleanup rule ${ruleName} no longer exists, the log group may have had to be archived`,
+    });
+    return;
+  }
+  if (
+    ruleAction === 'archive' &&
+    !(await archiveLogGroup({ logGroup, message }))
+  ) {
+    return;
+  }
+
+  logger.info('Deleting log group', { logGroupName, awsRegion, ruleName });
   try {
     await cwClient.send(
       new DeleteLogGroupCommand({
         logGroupName,
       })
     );
-    logger.info('Successfully deleted log group', { logGroupName, awsRegion });
+    logger.info('Successfully deleted log group', {
+      logGroupName,
+      awsRegion,
+      ruleName,
+    });
   } catch (error) {
     if (error instanceof ResourceNotFoundException) {
-      logger.warn('Log group already deleted', { logGroupName, awsRegion });
+      logger.warn('Log group already deleted', {
+        logGroupName,
+        awsRegion,
+        ruleName,
+      });
+      await recordTransition({
+        ...ledgerEntry,
+        logGroup,
+        state: 'ALREADY_GONE',
+        reason: 'Log group deleted while its deletion was processed',
+      });
+      addBusinessMetric({
+        name: 'LogGroupsAlreadyDeleted',
+        region: awsRegion,
+        ruleName,
+      });
       return;
     }
     throw error;
   }
+  await recordTransition({
+    ...ledgerEntry,
+    logGroup,
+    state: 'DELETED',
+    reason: ruleAction === 'archive' ? 'Archived and deleted' : 'Deleted',
+  });
+  addBusinessMetric({
+    name: 'LogGroupsDeleted',
+    region: awsRegion,
+    ruleName,
+  });
+  addBusinessMetric({
+    name: 'StoredBytesReclaimed',
+    region: awsRegion,
+    ruleName,
+    unit: MetricUnit.Bytes,
+    value: logGroup.storedBytes ?? 0,
+  });
+};
+
+/**
+ * Record in the ledger that processing the deletion of a log group failed
+ *
+ * The record is retried by SQS, so failing to write the ledger must not hide
+ * the original error.
+ *
+ * @param message - The deletion message being processed
+ * @param error - The error that made the processing fail
+ */
+const recordFailure = async (
+  {
+    logGroupName,
+    awsRegion,
+    ruleName,
+    correlationId,
+    accountId,
+  }: DeletionMessage,
+  error: unknown
+) => {
+  try {
+    await recordTransition({
+      logGroupName,
+      region: awsRegion,
+      ruleName,
+      correlationId,
+      accountId,
+      state: 'FAILED',
+      reason: error instanceof Error ? error.message : String(error),
+    });
+  } catch (ledgerError) {
+    logger.error('Failed to record the failure in the ledger', {
+      error: ledgerError,
+    });
+  }
+};
+
+/**
+ * Process a single SQS record, following it by the correlation id carried
+ * since the creation of the log group in the logs and the trace
+ */
+const recordHandler = async ({
+  body: message,
+}: ParsedRecord<SQSRecord, DeletionMessage>) => {
+  const { correlationId, logGroupName } = message;
+  logger.appendKeys({ correlationId });
+
+  await traceSubsegment(
+    '### processDeletion',
+    async () => {
+      try {
+        await processDeletion(message);
+      } catch (error) {
+        await recordFailure(message, error);
+        throw error;
+      }
+    },
+    { correlationId, logGroupName }
+  );
 };
 
 export const handler: SQSHandler = async (event, context) => {
   logger.addContext(context);
   logger.logEventIfEnabled(event);
 
-  return processPartialResponse(event, recordHandler, processor, {
-    context,
-  });
+  try {
+    return await traceHandler(() =>
+      processPartialResponse(event, recordHandler, processor, {
+        context,
+      })
+    );
+  } finally {
+    metrics.publishStoredMetrics();
+  }
 };
@@ -0,0 +1,112 @@
+import {
+  getNumberFromEnv,
+  getStringFromEnv,
+} from '@aws-lambda-powertools/commons/utils/env';
+import { PutRetentionPolicyCommand } from '@aws-sdk/client-cloudwatch-logs';
+import { Temporal } from 'temporal-polyfill';
+import { z } from 'zod';
+import { getRegionalCwClient } from './cloudwatch.ts';
+import { logger } from './logger.ts';
+import { buildLogGroupUrl, sendNotification } from './notifications.ts';
+
+const neverExpirePolicy = z
+  .enum(['applyDefaultRetention', 'delay', 'skip'])
+  .parse(
+    getStringFromEnv({ key: 'NEVER_EXPIRE_POLICY', defaultValue: 'delay' })
+  );
+const neverExpireDefaultRetentionInDays = getNumberFromEnv({
+  key: 'NEVER_EXPIRE_DEFAULT_RETENTION_DAYS',
+  defaultValue: 7,
+});
+const neverExpireDelayDays = getNumberFromEnv({
+  key: 'NEVER_EXPIRE_DELAY_DAYS',
+});
+
+/**
+ * Compute the date at which a log group should be deleted
+ *
+ * @param param - options object
+ * @param param.creationTime - The time the log group was created (epoch millis)
+ * @param param.days - The number of days after creation to delete the log group
+ */
+const computeDeletionDate = ({
+  creationTime,
+  days,
+}: {
+  creationTime: number;
+  days: number;
+}) =>
+  Temporal.Instant.fromEpochMilliseconds(creationTime)
+    .toZonedDateTimeISO('UTC')
+    .add({ days })
+    .toInstant();
+
+/**
+ * Resolve how many days after creation a log group should be deleted, i.e.
+ * the retention period plus the configured delay
+ *
+ * Log groups with no retention policy ("Never expire") are handled according
+ * to the configured never-expire policy, which can also mean not deleting them
+ * at all, in which case `undefined` is returned.
+ *
+ * @param param - options object
+ * @param param.logGroupName - The name of the log group
+ * @param param.region - The AWS region where the log group is located
+ * @param param.accountId - The member account of the log group, if any
+ * @param param.retentionInDays - The retention of the log group, if any
+ * @param param.deletionDelayDays - Days to wait after the retention period, from the matching rule
+ * @param param.notify - Whether to send a notification when the log group is skipped, defaults to `true`
+ * @param param.applyRetention - Whether to apply the default retention to never-expiring log groups, defaults to `true`
+ */
+const resolveDeletionDays = async ({
+  logGroupName,
+  region,
+  accountId,
+  retentionInDays,
+  deletionDelayDays,
+  notify = true,
+  applyRetention = true,
+}: {
+  logGroupName: string;
+  region: string;
+  accountId?: string;
+  retentionInDays?: number;
+  deletionDelayDays: number;
+  notify?: boolean;
+  applyRetention?: boolean;
+}) => {
+  if (retentionInDays !== undefined) {
+    return retentionInDays + deletionDelayDays;
+  }
+
+  switch (neverExpirePolicy) {
+    case 'applyDefaultRetention':
+      if (!applyRetention)
+        return neverExpireDefaultRetentionInDays + deletionDelayDays;
+      await getRegionalCwClient(region, accountId).send(
+        new PutRetentionPolicyCommand({
+          logGroupName,
+          retentionInDays: neverExpireDefaultRetentionInDays,
+        })
+      );
+      logger.info('Applied default retention to never-expiring log group', {
+        retentionInDays: neverExpireDefaultRetentionInDays,
+      });
+      return neverExpireDefaultRetentionInDays + deletionDelayDays;
+    case 'delay':
+      return neverExpireDelayDays;
+    case 'skip':
+      logger.warn('Skipping never-expiring log group', { logGroupName });
+      if (!notify) return undefined;
+      await sendNotification({
+        title: 'Never-expiring log group skipped',
+        description: `Log group ${logGroupName} has no retention policy and was not scheduled for deletion`,
+        region,
+        time: new Date().toISOString(),
+        url: buildLogGroupUrl({ logGroupName, region }),
+      });
+      return undefined;
+  }
+};
+
+export { computeDeletionDate, resolveDeletionDays };
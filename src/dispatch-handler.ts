@@ -0,0 +1,75 @@
+import { addUserAgentMiddleware } from '@aws-lambda-powertools/commons';
+import { getStringFromEnv } from '@aws-lambda-powertools/commons/utils/env';
+import { SendMessageCommand, SQSClient } from '@aws-sdk/client-sqs';
+import type { Context } from 'aws-lambda';
+import { Temporal } from 'temporal-polyfill';
+import { logger } from './logger.ts';
+import {
+  listDueSchedules,
+  removeDispatchedSchedule,
+} from './schedule-table.ts';
+
+const sqsClient = new SQSClient({
+  retryMode: 'adaptive',
+  maxAttempts: 5,
+});
+addUserAgentMiddleware(sqsClient, 'NO-OP');
+
+const tableName = getStringFromEnv({ key: 'SCHEDULE_TABLE_NAME' });
+const indexName = getStringFromEnv({ key: 'SCHEDULE_TABLE_DUE_INDEX_NAME' });
+const deletionQueueUrl = getStringFromEnv({ key: 'DELETION_QUEUE_URL' });
+
+/**
+ * Send the pending deletions that are due to the deletion queue, when the
+ * DynamoDB scheduling backend is used
+ *
+ * Each deletion is removed from the table once sent, so a failed run is
+ * simply picked up by the next one. The deletion handler treats log groups
+ * that are already gone as success, so sending one twice is harmless.
+ */
+export const handler = async (_event: unknown, context: Context) => {
+  logger.addContext(context);
+
+  const dueSchedules = await listDueSchedules({
+    tableName,
+    indexName,
+    now: Temporal.Now.instant(),
+  });
+  for (const {
+    scheduleName,
+    logGroupName,
+    region,
+    ruleName,
+    ruleAction,
+    dryRun,
+    postponeCount,
+    correlationId,
+    accountId,
+    dueAt,
+  } of dueSchedules) {
+    await sqsClient.send(
+      new SendMessageCommand({
+        QueueUrl: deletionQueueUrl,
+        MessageBody: JSON.stringify({
+          logGroupName,
+          awsRegion: region,
+          ruleName,
+          ruleAction,
+          dryRun,
+          postponeCount,
+          correlationId,
+          accountId,
+        }),
+      })
+    );
+    await removeDispatchedSchedule({ tableName, scheduleName, dueAt });
+    logger.info('Sent due log group to the deletion queue', {
+      scheduleName,
+      logGroupName,
+      ruleName,
+      correlationId,
+    });
+  }
+
+  return { dispatched: dueSchedules.length };
+};
@@ -1,9 +1,3 @@
-import { randomUUID } from 'node:crypto';
-import { addUserAgentMiddleware } from '@aws-lambda-powertools/commons';
-import {
-  getNumberFromEnv,
-  getStringFromEnv,
-} from '@aws-lambda-powertools/commons/utils/env';
 import {
   BatchProcessor,
   EventType,
@@ -14,31 +8,41 @@ import type { ParsedRecord } from '@aws-lambda-powertools/batch/types';
 import { parse } from '@aws-lambda-powertools/parser';
 import { EventBridgeEnvelope } from '@aws-lambda-powertools/parser/envelopes';
 import type { EventBridgeEvent } from '@aws-lambda-powertools/parser/types';
-import { DescribeLogGroupsCommand } from '@aws-sdk/client-cloudwatch-logs';
-import {
-  ActionAfterCompletion,
-  CreateScheduleCommand,
-  FlexibleTimeWindowMode,
-  SchedulerClient,
-} from '@aws-sdk/client-scheduler';
 import type { Context, SQSHandler, SQSRecord } from 'aws-lambda';
-import { Temporal } from 'temporal-polyfill';
 import { z } from 'zod';
-import { getRegionalCwClient } from './cloudwatch.js';
-import { logger } from './logger.js';
-
-const schedulerClient = new SchedulerClient({
-  retryMode: 'adaptive',
-  maxAttempts: 5,
-});
-addUserAgentMiddleware(schedulerClient, 'NO-OP');
+import { getArchiveRestriction } from './archive.ts';
+import { getCleanupRules } from './cleanup-rules.ts';
+import { findLogGroup, getMemberAccountId } from './cloudwatch.ts';
+import { computeDeletionDate, resolveDeletionDays } from './deletion-policy.ts';
+import { getLedgerEntry, recordTransition } from './ledger.ts';
+import { logger } from './logger.ts';
+import { addBusinessMetric, metrics } from './metrics.ts';
+import { getScheduleName } from './schedule-names.ts';
+import {
+  deleteSchedule,
+  getSchedule,
+  listScheduleNames,
+  updateSchedule,
+  upsertSchedule,
+} from './scheduling.ts';
+import type { CleanupRule } from './schemas/cleanup-rule.ts';
+import { traceHandler, traceSubsegment } from './tracer.ts';
 
 const EventBridgeEventSchema = z.object({
   detail: z.object({
+    eventID: z.string(),
     eventTime: z.string(),
+    eventName: z.enum([
+      'CreateLogGroup',
+      'PutRetentionPolicy',
+      'DeleteRetentionPolicy',
+      'DeleteLogGroup',
+    ]),
     awsRegion: z.string(),
+    recipientAccountId: z.string().optional(),
     requestParameters: z.object({
       logGroupName: z.string(),
+      tags: z.record(z.string(), z.string()).optional(),
     }),
   }),
 });
@@ -50,36 +54,20 @@ const processor = new BatchProcessor(EventType.SQS, {
   logger,
 });
 
-const deletionQueueArn = getStringFromEnv({ key: 'DELETION_QUEUE_ARN' });
-const schedulerRoleArn = getStringFromEnv({ key: 'SCHEDULER_ROLE_ARN' });
-const deletionDelayDays = getNumberFromEnv({ key: 'DELETION_DELAY_DAYS' });
-
 /**
  * Fetch log group info for the given log group name
  *
  * @param param - options object
  * @param param.region - AWS region where the log group is located
  * @param param.logGroupName - Name of the log group to fetch info for
+ * @param param.accountId - Member account of the log group, if any
  */
-const fetchLogGroupInfo = async ({
-  region,
-  logGroupName,
-}: {
+const fetchLogGroupInfo = async (params: {
   region: string;
   logGroupName: string;
+  accountId?: string;
 }) => {
-  const cwClient = getRegionalCwClient(region);
-
-  const response = await cwClient.send(
-    new DescribeLogGroupsCommand({
-      logGroupNamePrefix: logGroupName,
-    })
-  );
-  logger.debug('Log group info', { response: response.logGroups || [] });
-
-  const logGroup = response.logGroups?.find(
-    (lg) => lg.logGroupName === logGroupName
-  );
+  const logGroup = await findLogGroup(params);
   if (!logGroup) {
     const message = 'Log group not found or does not exist';
     logger.error(message);
@@ -90,94 +78,432 @@ const fetchLogGroupInfo = async ({
 };
 
 /**
- * Create an Amazon EventBridge Scheduler schedule to delete the log group
- * after the retention period plus configured delay
+ * Fetch the log group info and make sure it carries a creation time
+ *
+ * @param param - options object
+ * @param param.region - AWS region where the log group is located
+ * @param param.logGroupName - Name of the log group to fetch info for
+ * @param param.accountId - Member account of the log group, if any
+ */
+const fetchLogGroupCreationInfo = async (params: {
+  region: string;
+  logGroupName: string;
+  accountId?: string;
+}) => {
+  const logGroup = await fetchLogGroupInfo(params);
+  const { retentionInDays, creationTime } = logGroup;
+  if (creationTime === undefined) {
+    throw new Error('Log group creation time is not available');
+  }
+
+  return { logGroup, retentionInDays, creationTime };
+};
+
+/**
+ * Schedule the deletion of the log group after the retention period plus
+ * configured delay
+ *
+ * If the schedule already exists, e.g. because the same event was delivered
+ * more than once, it's updated with the recomputed deletion date instead. A
+ * redelivered event of a skipped log group doesn't notify about it again.
  *
  * @param param - options object
- * @param param.eventTime - The time the log group was created
  * @param param.logGroupName - The name of the log group
  * @param param.region - The AWS region where the log group is located
- * @param param.retentionInDays - The number of days to retain logs for
+ * @param param.rule - The cleanup rule that matched the log group
+ * @param param.correlationId - The id of the CloudTrail event that created the log group
+ * @param param.accountId - The member account of the log group, if any
  */
 const createDeleteSchedule = async ({
-  retentionInDays,
-  eventTime,
   logGroupName,
   region,
+  rule,
+  correlationId,
+  accountId,
 }: {
-  retentionInDays: number;
-  eventTime: string;
   logGroupName: string;
   region: string;
+  rule: CleanupRule;
+  correlationId: string;
+  accountId?: string;
 }) => {
-  const deletionDate = Temporal.Instant.from(eventTime)
-    .toZonedDateTimeISO('UTC')
-    .add({ days: retentionInDays + deletionDelayDays })
-    .toInstant();
-
-  // Extract a short name from the log group for the schedule name
-  const shortName =
-    logGroupName.split('/').pop()?.substring(0, 18) ?? 'unknown';
-
-  await schedulerClient.send(
-    new CreateScheduleCommand({
-      ScheduleExpression: `at(${deletionDate.toString().replace('Z', '')})`,
-      FlexibleTimeWindow: {
-        Mode: FlexibleTimeWindowMode.FLEXIBLE,
-        MaximumWindowInMinutes: 5,
-      },
-      Name: `DeleteLogGroup-${shortName}-${randomUUID().substring(0, 5)}`,
-      Target: {
-        RoleArn: schedulerRoleArn,
-        Arn: deletionQueueArn,
-        Input: JSON.stringify({
-          logGroupName: logGroupName,
-          awsRegion: region,
-        }),
-      },
-      ActionAfterCompletion: ActionAfterCompletion.DELETE,
-    })
-  );
+  const { logGroup, retentionInDays, creationTime } =
+    await fetchLogGroupCreationInfo({ region, logGroupName, accountId });
+  const previousEntry = await getLedgerEntry({
+    logGroupName,
+    region,
+    accountId,
+  });
+  const alreadySkipped =
+    previousEntry?.state === 'SKIPPED' &&
+    previousEntry.creationTime === creationTime;
+  const ledgerEntry = {
+    logGroupName,
+    region,
+    logGroup,
+    ruleName: rule.name,
+    correlationId,
+    accountId,
+  };
+  await recordTransition({
+    ...ledgerEntry,
+    state: 'DETECTED',
+    reason: `Matched cleanup rule ${rule.name}`,
+  });
+
+  // Log groups an archive rule can't export are kept rather than deleted
+  // without their log data
+  const archiveRestriction =
+    rule.action === 'archive'
+      ? getArchiveRestriction({ region, accountId })
+      : undefined;
+  if (archiveRestriction) {
+    logger.warn("Log group of an archive rule can't be archived, skipping", {
+      ruleName: rule.name,
+      reason: archiveRestriction,
+    });
+    await recordTransition({
+      ...ledgerEntry,
+      state: 'SKIPPED',
+      reason: archiveRestriction,
+    });
+    return;
+  }
+
+  const days = await resolveDeletionDays({
+    logGroupName,
+    region,
+    accountId,
+    retentionInDays,
+    deletionDelayDays: rule.deletionDelayDays,
+    notify: !alreadySkipped,
+  });
+  if (days === undefined) {
+    await recordTransition({
+      ...ledgerEntry,
+      state: 'SKIPPED',
+      reason: 'Log group never expires',
+    });
+    return;
+  }
+
+  const deletionDate = computeDeletionDate({ creationTime, days });
+  await upsertSchedule({
+    scheduleName: getScheduleName({
+      logGroupName,
+      region,
+      creationTime,
+      accountId,
+    }),
+    deletionDate,
+    logGroupName,
+    region,
+    ruleName: rule.name,
+    ruleAction: rule.action === 'archive' ? 'archive' : 'delete',
+    correlationId,
+    accountId,
+  });
+  await recordTransition({
+    ...ledgerEntry,
+    state: 'SCHEDULED',
+    reason: `Deletion due ${days} days after creation`,
+    deletionDate,
+  });
+  addBusinessMetric({
+    name: 'LogGroupsScheduled',
+    region,
+    ruleName: rule.name,
+  });
+};
+
+/**
+ * Recompute the deletion date of an existing schedule after the retention
+ * policy of its log group changed
+ *
+ * If the log group no longer expires and the never-expire policy is `skip`,
+ * the schedule is deleted instead. Log groups already deleted are skipped.
+ *
+ * @param param - options object
+ * @param param.logGroupName - The name of the log group
+ * @param param.region - The AWS region where the log group is located
+ * @param param.accountId - The member account of the log group, if any
+ */
+const rescheduleDeletion = async ({
+  logGroupName,
+  region,
+  accountId,
+}: {
+  logGroupName: string;
+  region: string;
+  accountId?: string;
+}) => {
+  // The log group can be deleted before its retention event is processed, its
+  // DeleteLogGroup event then cancels the schedule
+  const logGroup = await findLogGroup({ region, logGroupName, accountId });
+  if (!logGroup) {
+    logger.info('Log group no longer exists, skipping');
+    return;
+  }
+  const { retentionInDays, creationTime } = logGroup;
+  if (creationTime === undefined) {
+    throw new Error('Log group creation time is not available');
+  }
+  const scheduleName = getScheduleName({
+    logGroupName,
+    region,
+    creationTime,
+    accountId,
+  });
+
+  const schedule = await getSchedule(scheduleName);
+  if (!schedule) {
+    logger.info('No deletion schedule found for log group, skipping', {
+      scheduleName,
+    });
+    return;
+  }
+  // Keep following the log group by the event that created it
+  if (schedule.correlationId) {
+    logger.appendKeys({ correlationId: schedule.correlationId });
+  }
+
+  // The schedule carries the rule that matched the log group at creation,
+  // since retention events don't carry the tags needed to match it again
+  const { ruleName } = schedule;
+  const { cleanupRules } = await getCleanupRules();
+  const rule = cleanupRules.find(({ name }) => name === ruleName);
+  if (!rule) {
+    logger.warn('Cleanup rule of the schedule no longer exists, skipping', {
+      scheduleName,
+      ruleName,
+    });
+    return;
+  }
+
+  const days = await resolveDeletionDays({
+    logGroupName,
+    region,
+    accountId,
+    retentionInDays,
+    deletionDelayDays: rule.deletionDelayDays,
+  });
+  const ledgerEntry = {
+    logGroupName,
+    region,
+    logGroup,
+    ruleName,
+    correlationId: schedule.correlationId,
+    accountId,
+  };
+  if (days === undefined) {
+    await deleteSchedule(scheduleName);
+    await recordTransition({
+      ...ledgerEntry,
+      state: 'SKIPPED',
+      reason: 'Log group no longer expires',
+    });
+    addBusinessMetric({ name: 'SchedulesCancelled', region, ruleName });
+    return;
+  }
+
+  const deletionDate = computeDeletionDate({ creationTime, days });
+  await updateSchedule({
+    scheduleName,
+    deletionDate,
+    logGroupName,
+    region,
+    ruleName: rule.name,
+    // Schedules created before the action was carried get the current one
+    ruleAction:
+      schedule.ruleAction ?? (rule.action === 'archive' ? 'archive' : 'delete'),
+    correlationId: schedule.correlationId,
+    accountId,
+  });
+  logger.info('Updated deletion schedule', {
+    scheduleName,
+    retentionInDays,
+    deletionDate: deletionDate.toString(),
+  });
+  await recordTransition({
+    ...ledgerEntry,
+    state: 'SCHEDULED',
+    reason: `Retention policy changed, deletion due ${days} days after creation`,
+    deletionDate,
+  });
+  addBusinessMetric({ name: 'SchedulesUpdated', region, ruleName });
+};
+
+/**
+ * Delete the pending deletion schedules of a log group that was deleted
+ * before they fired
+ *
+ * The log group can no longer be described at this point, so its schedules
+ * are found by the region and log group name alone.
+ *
+ * @param param - options object
+ * @param param.logGroupName - The name of the log group
+ * @param param.region - The AWS region where the log group was located
+ * @param param.accountId - The member account of the log group, if any
+ */
+const cancelDeletion = async ({
+  logGroupName,
+  region,
+  accountId,
+}: {
+  logGroupName: string;
+  region: string;
+  accountId?: string;
+}) => {
+  const scheduleNames = await listScheduleNames({
+    logGroupName,
+    region,
+    accountId,
+  });
+  if (scheduleNames.length === 0) {
+    logger.info('No deletion schedule found for log group, skipping');
+    return;
+  }
+
+  for (const scheduleName of scheduleNames) {
+    await deleteSchedule(scheduleName);
+  }
+  await recordTransition({
+    logGroupName,
+    region,
+    accountId,
+    state: 'ALREADY_GONE',
+    reason: 'Log group deleted before its deletion was due',
+  });
+  addBusinessMetric({
+    name: 'SchedulesCancelled',
+    region,
+    value: scheduleNames.length,
+  });
+};
+
+/**
+ * Handle a CloudTrail event about a log group
+ *
+ * @param param - options object
+ * @param param.eventName - The name of the CloudWatch Logs API call
+ * @param param.awsRegion - The AWS region where the log group is located
+ * @param param.logGroupName - The name of the log group
+ * @param param.tags - The tags the log group was created with, if any
+ * @param param.correlationId - The id of the CloudTrail event
+ * @param param.accountId - The member account of the log group, if any
+ */
+const processEvent = async ({
+  eventName,
+  awsRegion,
+  logGroupName,
+  tags,
+  correlationId,
+  accountId,
+}: {
+  eventName: z.infer<typeof EventBridgeEventSchema>['detail']['eventName'];
+  awsRegion: string;
+  logGroupName: string;
+  tags?: Record<string, string>;
+  correlationId: string;
+  accountId?: string;
+}) => {
+  if (eventName === 'DeleteLogGroup') {
+    await cancelDeletion({ logGroupName, region: awsRegion, accountId });
+    return;
+  }
+  if (eventName !== 'CreateLogGroup') {
+    await rescheduleDeletion({ logGroupName, region: awsRegion, accountId });
+    return;
+  }
+
+  // The EventBridge rule only pre-filters by prefix, so the full patterns
+  // (globs, regexes and exclusions) and rule order are evaluated here
+  const { findMatchingRule } = await getCleanupRules();
+  const rule = findMatchingRule({ logGroupName, tags });
+  if (!rule) {
+    logger.info('Log group does not match any cleanup rule, skipping');
+    addBusinessMetric({ name: 'LogGroupsNotMatched', region: awsRegion });
+    return;
+  }
+  if (rule.action === 'ignore') {
+    logger.info('Log group matches an ignore rule, skipping', {
+      ruleName: rule.name,
+    });
+    addBusinessMetric({
+      name: 'LogGroupsIgnored',
+      region: awsRegion,
+      ruleName: rule.name,
+    });
+    return;
+  }
+
+  await createDeleteSchedule({
+    logGroupName,
+    region: awsRegion,
+    rule,
+    correlationId,
+    accountId,
+  });
 };
 
 /**
  * Process a single SQS record containing an EventBridge event
+ *
+ * The id of the CloudTrail event is used as correlation id: it's added to the
+ * logs and the trace, and carried by the schedule until the log group is
+ * deleted.
  */
 const recordHandler = async ({
   body: {
     detail: {
-      eventTime,
+      eventID,
+      eventName,
       awsRegion,
-      requestParameters: { logGroupName },
+      recipientAccountId,
+      requestParameters: { logGroupName, tags },
     },
   },
   messageId,
 }: ParsedRecord<SQSRecord, z.infer<typeof EventBridgeEventSchema>>) => {
+  // Events forwarded by the spoke stacks of member accounts are handled in
+  // the account that received the API call
+  const accountId = getMemberAccountId(recipientAccountId);
   logger.appendKeys({
     awsRegion,
+    accountId,
     logGroupName,
+    eventName,
     messageId,
+    correlationId: eventID,
   });
 
-  const logGroup = await fetchLogGroupInfo({
-    region: awsRegion,
-    logGroupName,
-  });
-  const { retentionInDays } = logGroup;
-  await createDeleteSchedule({
-    retentionInDays: retentionInDays ?? 0,
-    eventTime,
-    logGroupName,
-    region: awsRegion,
-  });
+  await traceSubsegment(
+    '### processEvent',
+    () =>
+      processEvent({
+        eventName,
+        awsRegion,
+        logGroupName,
+        tags,
+        correlationId: eventID,
+        accountId,
+      }),
+    { correlationId: eventID, logGroupName }
+  );
 };
 
 export const handler: SQSHandler = async (event, context) => {
   logger.addContext(context);
   logger.logEventIfEnabled(event);
 
-  return processPartialResponse(event, recordHandler, processor, {
-    context,
-    throwOnFullBatchFailure: false,
-  });
+  try {
+    return await traceHandler(() =>
+      processPartialResponse(event, recordHandler, processor, {
+        context,
+        throwOnFullBatchFailure: false,
+      })
+    );
+  } finally {
+    metrics.publishStoredMetrics();
+  }
 };
@@ -0,0 +1,80 @@
+import { addUserAgentMiddleware } from '@aws-lambda-powertools/commons';
+import { getStringFromEnv } from '@aws-lambda-powertools/commons/utils/env';
+import { SendMessageCommand, SQSClient } from '@aws-sdk/client-sqs';
+import { Temporal } from 'temporal-polyfill';
+import { recordTransition } from './ledger.ts';
+import { logger } from './logger.ts';
+import { deleteSchedule } from './scheduling.ts';
+import { DeletionMessageSchema } from './schemas/deletion-message.ts';
+import type { ScheduledDeletion } from './types.ts';
+
+const sqsClient = new SQSClient({
+  retryMode: 'adaptive',
+  maxAttempts: 5,
+});
+addUserAgentMiddleware(sqsClient, 'NO-OP');
+
+const deletionQueueUrl = getStringFromEnv({ key: 'DELETION_QUEUE_URL' });
+
+/**
+ * Send a pending deletion to the deletion queue right away and remove its
+ * schedule, the deletion handler still checks the tags of the log group
+ * before deleting it
+ *
+ * @param param - options object
+ * @param param.schedule - The pending deletion
+ * @param param.reason - Why the deletion was expedited, recorded in the ledger
+ */
+const expediteDeletion = async ({
+  schedule,
+  reason,
+}: {
+  schedule: ScheduledDeletion;
+  reason: string;
+}) => {
+  const {
+    scheduleName,
+    logGroupName,
+    region,
+    ruleName,
+    ruleAction,
+    dryRun,
+    postponeCount,
+    correlationId,
+    accountId,
+  } = schedule;
+  await sqsClient.send(
+    new SendMessageCommand({
+      QueueUrl: deletionQueueUrl,
+      MessageBody: JSON.stringify(
+        DeletionMessageSchema.parse({
+          logGroupName,
+          awsRegion: region,
+          ruleName,
+          ruleAction,
+          dryRun,
+          postponeCount,
+          correlationId,
+          accountId,
+        })
+      ),
+    })
+  );
+  await deleteSchedule(scheduleName);
+  await recordTransition({
+    logGroupName,
+    region,
+    ruleName,
+    correlationId,
+    accountId,
+    state: 'SCHEDULED',
+    reason,
+    deletionDate: Temporal.Now.instant(),
+  });
+  logger.info('Sent log group to the deletion queue', {
+    scheduleName,
+    logGroupName,
+  });
+};
+
+export { expediteDeletion };
@@ -0,0 +1,226 @@
+import { addUserAgentMiddleware } from '@aws-lambda-powertools/commons';
+import { paginateDescribeLogGroups } from '@aws-sdk/client-cloudwatch-logs';
+import {
+  InvocationType,
+  InvokeCommand,
+  LambdaClient,
+} from '@aws-sdk/client-lambda';
+import {
+  configuredRegions,
+  type DeletionPlan,
+  planLogGroupDeletion,
+} from './backfill.ts';
+import { findLogGroup, getRegionalCwClient } from './cloudwatch.ts';
+import { expediteDeletion } from './expedite.ts';
+import { recordTransition } from './ledger.ts';
+import {
+  deleteSchedule,
+  findSchedules,
+  getSchedule,
+  listScheduleNames,
+} from './scheduling.ts';
+import type { ScheduledDeletion } from './types.ts';
+
+const lambdaClient = new LambdaClient({
+  retryMode: 'adaptive',
+  maxAttempts: 5,
+});
+addUserAgentMiddleware(lambdaClient, 'NO-OP');
+
+/**
+ * Read the pending deletions of a log group, whatever its creation time
+ *
+ * @param param - options object
+ * @param param.logGroupName - The name of the log group
+ * @param param.region - The AWS region where the log group is located
+ */
+const getLogGroupSchedules = async ({
+  logGroupName,
+  region,
+}: {
+  logGroupName: string;
+  region: string;
+}) => {
+  const schedules: ScheduledDeletion[] = [];
+  for (const scheduleName of await listScheduleNames({
+    logGroupName,
+    region,
+  })) {
+    const schedule = await getSchedule(scheduleName);
+    if (schedule) schedules.push(schedule);
+  }
+
+  return schedules;
+};
+
+/**
+ * Work out whether a log group matches a cleanup rule and when it's due for
+ * deletion, like the event handler does, along with its pending deletions
+ *
+ * Nothing is changed, never-expiring log groups are planned as if the
+ * default retention was already applied to them.
+ *
+ * @param param - options object
+ * @param param.logGroupName - The name of the log group
+ * @param param.region - The AWS region where the log group is located
+ */
+const getLogGroupStatus = async ({
+  logGroupName,
+  region,
+}: {
+  logGroupName: string;
+  region: string;
+}) => {
+  const logGroup = await findLogGroup({ region, logGroupName });
+  const schedules = await getLogGroupSchedules({ logGroupName, region });
+  if (!logGroup) return { exists: false as const, schedules };
+
+  return {
+    exists: true as const,
+    plan: await planLogGroupDeletion({ logGroup, region, readOnly: true }),
+    schedules,
+  };
+};
+
+/**
+ * Cancel the pending deletions of a log group, the log group is kept
+ *
+ * The cancellation is held in the ledger, so that later sweeps leave the log
+ * group alone.
+ *
+ * @param param - options object
+ * @param param.logGroupName - The name of the log group
+ * @param param.region - The AWS region where the log group is located
+ */
+const cancelLogGroupDeletion = async ({
+  logGroupName,
+  region,
+}: {
+  logGroupName: string;
+  region: string;
+}) => {
+  const schedules = await getLogGroupSchedules({ logGroupName, region });
+  for (const { scheduleName } of schedules) {
+    await deleteSchedule(scheduleName);
+  }
+  if (schedules.length > 0) {
+    await recordTransition({
+      logGroupName,
+      region,
+      accountId: schedules[0].accountId,
+      ruleName: schedules[0].ruleName,
+      correlationId: schedules[0].correlationId,
+      state: 'SKIPPED',
+      reason: 'Deletion cancelled through the goober CLI',
+      hold: 'cancelled',
+    });
+  }
+
+  return schedules;
+};
+
+/**
+ * Send the pending deletions of the log groups whose name starts with the
+ * given prefix to the deletion queue right away
+ *
+ * Without confirmation, the pending deletions are only listed. Either way,
+ * the deletion handler still checks the tags of each log group before
+ * deleting it.
+ *
+ * @param param - options object
+ * @param param.prefix - The prefix of the log group names
+ * @param param.region - The AWS region of the log groups
+ * @param param.confirm - Whether to actually send the deletions to the queue
+ */
+const purgeDeletions = async ({
+  prefix,
+  region,
+  confirm,
+}: {
+  prefix: string;
+  region?: string;
+  confirm: boolean;
+}) => {
+  const schedules = await findSchedules({ prefix, region });
+  if (!confirm) return schedules;
+
+  for (const schedule of schedules) {
+    await expediteDeletion({
+      schedule,
+      reason: 'Deletion expedited through the goober CLI',
+    });
+  }
+
+  return schedules;
+};
+
+/**
+ * Plan the deletion of the existing log groups of the given regions the way
+ * the sweep handler does, without scheduling anything
+ *
+ * @param param - options object
+ * @param param.regions - Regions to sweep, defaults to the configured regions
+ */
+const planSweep = async ({
+  regions = configuredRegions,
+}: {
+  regions?: string[];
+}) => {
+  const summary: Record<DeletionPlan['outcome'], number> = {
+    notMatched: 0,
+    ignored: 0,
+    skipped: 0,
+    due: 0,
+  };
+  const due: Extract<DeletionPlan, { outcome: 'due' }>[] = [];
+
+  for (const region of regions) {
+    for await (const page of paginateDescribeLogGroups(
+      { client: getRegionalCwClient(region) },
+      {}
+    )) {
+      for (const logGroup of page.logGroups ?? []) {
+        const plan = await planLogGroupDeletion({
+          logGroup,
+          region,
+          readOnly: true,
+        });
+        summary[plan.outcome]++;
+        if (plan.outcome === 'due') due.push(plan);
+      }
+    }
+  }
+
+  return { summary, due };
+};
+
+/**
+ * Start a sweep of the existing log groups with the deployed sweep handler
+ *
+ * @param param - options object
+ * @param param.functionName - The name of the sweep handler
+ * @param param.regions - Regions to sweep, defaults to the configured regions
+ */
+const startSweep = async ({
+  functionName,
+  regions,
+}: {
+  functionName: string;
+  regions?: string[];
+}) => {
+  await lambdaClient.send(
+    new InvokeCommand({
+      FunctionName: functionName,
+      InvocationType: InvocationType.Event,
+      Payload: JSON.stringify({ regions }),
+    })
+  );
+};
+
+export {
+  cancelLogGroupDeletion,
+  getLogGroupStatus,
+  planSweep,
+  purgeDeletions,
+  startSweep,
+};
@@ -0,0 +1,203 @@
+#!/usr/bin/env node
+import { existsSync, readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import {
+  GetFunctionConfigurationCommand,
+  LambdaClient,
+} from '@aws-sdk/client-lambda';
+import type { ScheduledDeletion } from './types.ts';
+
+const USAGE = `Usage: goober <command> [options]
+
+Commands:
+  status <logGroup>        Show whether a log group matches a cleanup rule, its due date and its schedule
+  pending                  List the pending deletions, soonest first
+  cancel <logGroup>        Cancel the pending deletions of a log group
+  purge --prefix <prefix>  Send the pending deletions under a prefix to the deletion queue, needs --yes
+  sweep                    Start a sweep of the existing log groups, or only plan it with --dry-run
+
+Options:
+  --app-name <name>    Name of the deployed app, defaults to the appName of ./config.json
+  --region <region>    Region of the log groups, defaults to the region of the app for status and cancel
+  --prefix <prefix>    Only the log groups whose name starts with the prefix
+  --dry-run            Plan the sweep locally without scheduling anything
+  --yes                Confirm the purge
+  --help               Show this message
+`;
+
+/**
+ * Functions whose environment holds the whole configuration of the app, the
+ * cleanup rules and the scheduling backend as much as the ledger table
+ */
+const CONFIGURATION_FUNCTIONS = ['reconcile-handler', 'admin-handler'];
+
+/**
+ * Load the environment of the deployed functions of the app, so that the
+ * commands apply the exact cleanup rules and scheduling backend the Lambda
+ * functions use
+ *
+ * Variables already set in the environment take precedence.
+ *
+ * @param appName - The name of the deployed app
+ * @returns The region the app is deployed to
+ */
+const loadDeployedEnvironment = async (appName: string) => {
+  const lambdaClient = new LambdaClient({});
+  for (const suffix of CONFIGURATION_FUNCTIONS) {
+    const { Environment } = await lambdaClient.send(
+      new GetFunctionConfigurationCommand({
+        FunctionName: `${appName}-${suffix}`,
+      })
+    );
+    for (const [key, value] of Object.entries(Environment?.Variables ?? {})) {
+      process.env[key] ??= value;
+    }
+  }
+
+  return lambdaClient.config.region();
+};
+
+/**
+ * Format a pending deletion as a row of the tables printed by the commands
+ *
+ * @param schedule - The pending deletion
+ */
+const toRow = ({
+  logGroupName,
+  region,
+  ruleName,
+  deletionDate,
+  dryRun,
+}: ScheduledDeletion) => ({
+  logGroupName,
+  region,
+  rule: ruleName ?? '',
+  deletionDate: deletionDate?.toString() ?? '',
+  dryRun: dryRun ?? false,
+});
+
+/**
+ * Run the command given on the command line against the deployed app
+ */
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      'app-name': { type: 'string' },
+      region: { type: 'string' },
+      prefix: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      yes: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  });
+  const [command, logGroupName] = positionals;
+  if (values.help || command === undefined) {
+    console.log(USAGE);
+    return;
+  }
+
+  const appName =
+    values['app-name'] ??
+    (existsSync('./config.json')
+      ? JSON.parse(readFileSync('./config.json', 'utf-8')).appName
+      : undefined);
+  if (!appName) {
+    throw new Error('Pass --app-name, or run goober next to config.json');
+  }
+  process.env.POWERTOOLS_LOG_LEVEL ??= 'WARN';
+  const appRegion = await loadDeployedEnvironment(appName);
+
+  // The modules read their configuration when they are loaded, so they can
+  // only be imported once the environment of the app is in place
+  const commands = await import('./goober-commands.ts');
+  const { findSchedules } = await import('./scheduling.ts');
+  const region = values.region ?? appRegion;
+
+  switch (command) {
+    case 'status': {
+      if (!logGroupName) throw new Error('Usage: goober status <logGroup>');
+      const status = await commands.getLogGroupStatus({ logGroupName, region });
+      if (!status.exists) {
+        console.log(`Log group ${logGroupName} doesn't exist in ${region}`);
+      } else if (status.plan.outcome === 'due') {
+        console.log(
+          `Log group ${logGroupName} matches rule ${status.plan.ruleName}, due for deletion on ${status.plan.deletionDate}`
+        );
+      } else {
+        console.log(`Log group ${logGroupName} is ${status.plan.outcome}`);
+      }
+      if (status.schedules.length === 0) {
+        console.log('No pending deletion');
+      } else {
+        console.table(status.schedules.map(toRow));
+      }
+      return;
+    }
+    case 'pending': {
+      const schedules = await findSchedules({
+        prefix: values.prefix,
+        region: values.region,
+      });
+      console.table(schedules.map(toRow));
+      return;
+    }
+    case 'cancel': {
+      if (!logGroupName) throw new Error('Usage: goober cancel <logGroup>');
+      const cancelled = await commands.cancelLogGroupDeletion({
+        logGroupName,
+        region,
+      });
+      console.log(
+        `Cancelled ${cancelled.length} pending deletion(s) of ${logGroupName}`
+      );
+      return;
+    }
+    case 'purge': {
+      if (!values.prefix) {
+        throw new Error('Usage: goober purge --prefix <prefix>');
+      }
+      const schedules = await commands.purgeDeletions({
+        prefix: values.prefix,
+        region: values.region,
+        confirm: values.yes,
+      });
+      console.table(schedules.map(toRow));
+      console.log(
+        values.yes
+          ? `Sent ${schedules.length} log group(s) to the deletion queue`
+          : `Would send ${schedules.length} log group(s) to the deletion queue, pass --yes to confirm`
+      );
+      return;
+    }
+    case 'sweep': {
+      const regions = values.region ? [values.region] : undefined;
+      if (!values['dry-run']) {
+        await commands.startSweep({
+          functionName: `${appName}-sweep-handler`,
+          regions,
+        });
+        console.log(`Started ${appName}-sweep-handler`);
+        return;
+      }
+      const { summary, due } = await commands.planSweep({ regions });
+      console.table(
+        due.map(({ logGroupName, region, ruleName, deletionDate }) => ({
+          logGroupName,
+          region,
+          rule: ruleName,
+          deletionDate: deletionDate.toString(),
+        }))
+      );
+      console.log(summary);
+      return;
+    }
+    default:
+      throw new Error(`Unknown command ${command}\n\n${USAGE}`);
+  }
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
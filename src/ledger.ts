@@ -0,0 +1,213 @@
+import { addUserAgentMiddleware } from '@aws-lambda-powertools/commons';
+import { getStringFromEnv } from '@aws-lambda-powertools/commons/utils/env';
+import type { LogGroup } from '@aws-sdk/client-cloudwatch-logs';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import type { Temporal } from 'temporal-polyfill';
+import { z } from 'zod';
+import { logger } from './logger.ts';
+import { tracer } from './tracer.ts';
+
+const dynamoDbClient = tracer.captureAWSv3Client(
+  new DynamoDBClient({
+    retryMode: 'adaptive',
+    maxAttempts: 5,
+  })
+);
+addUserAgentMiddleware(dynamoDbClient, 'NO-OP');
+const documentClient = DynamoDBDocumentClient.from(dynamoDbClient, {
+  marshallOptions: { removeUndefinedValues: true },
+});
+
+const ledgerTableName = getStringFromEnv({ key: 'LEDGER_TABLE_NAME' });
+
+/**
+ * States a log group goes through from its detection to its deletion
+ */
+const LedgerStateSchema = z.enum([
+  'DETECTED',
+  'SCHEDULED',
+  'SKIPPED',
+  'DELETED',
+  'ALREADY_GONE',
+  'FAILED',
+]);
+
+/**
+ * Why a skipped log group must not be planned for deletion again:
+ * - `cancelled`: an operator cancelled its deletion
+ * - `dryRun`: it would have been deleted in dry-run mode, only held while
+ *   dry-run mode is on
+ */
+const LedgerHoldSchema = z.enum(['cancelled', 'dryRun']);
+
+type LedgerState = z.infer<typeof LedgerStateSchema>;
+type LedgerHold = z.infer<typeof LedgerHoldSchema>;
+
+const LedgerEntrySchema = z.object({
+  state: LedgerStateSchema,
+  reason: z.string(),
+  creationTime: z.number().optional(),
+  dueAt: z.number().optional(),
+  hold: LedgerHoldSchema.optional(),
+});
+
+/**
+ * Build the key of the ledger item of a log group, the log groups of member
+ * accounts are keyed by their account and region
+ *
+ * @param param - options object
+ * @param param.logGroupName - The name of the log group
+ * @param param.region - The AWS region where the log group is located
+ * @param param.accountId - The member account of the log group, if any
+ */
+const buildKey = ({
+  logGroupName,
+  region,
+  accountId,
+}: {
+  logGroupName: string;
+  region: string;
+  accountId?: string;
+}) => ({
+  logGroupName,
+  awsRegion: accountId ? `${accountId}:${region}` : region,
+});
+
+/**
+ * Record a state transition of a log group in the ledger
+ *
+ * Each log group has one item holding its current state, with every
+ * transition appended to its history. The due date is kept from the moment
+ * the log group is scheduled, so the items can be queried by state and due
+ * date. The log groups of member accounts are keyed by their account and
+ * region, so that log groups with the same name in different accounts don't
+ * share an item.
+ *
+ * @param param - options object
+ * @param param.logGroupName - The name of the log group
+ * @param param.region - The AWS region where the log group is located
+ * @param param.state - The state the log group moved to
+ * @param param.reason - Why the log group moved to this state
+ * @param param.logGroup - The log group as returned by `DescribeLogGroups`, when it still exists
+ * @param param.ruleName - The cleanup rule that matched the log group
+ * @param param.correlationId - The id of the CloudTrail event that created the log group
+ * @param param.accountId - The member account of the log group, if any
+ * @param param.deletionDate - When the log group is due for deletion
+ * @param param.hold - Why the log group must not be planned for deletion again, for skipped log groups
+ */
+const recordTransition = async ({
+  logGroupName,
+  region,
+  state,
+  reason,
+  logGroup,
+  ruleName,
+  correlationId,
+  accountId,
+  deletionDate,
+  hold,
+}: {
+  logGroupName: string;
+  region: string;
+  state: LedgerState;
+  reason: string;
+  logGroup?: LogGroup;
+  ruleName?: string;
+  correlationId?: string;
+  accountId?: string;
+  deletionDate?: Temporal.Instant;
+  hold?: LedgerHold;
+}) => {
+  const { creationTime, retentionInDays, storedBytes } = logGroup ?? {};
+  const now = new Date().toISOString();
+  const attributes = Object.entries({
+    state,
+    reason,
+    updatedAt: now,
+    creationTime,
+    retentionInDays,
+    storedBytes,
+    ruleName,
+    correlationId,
+    accountId,
+    dueAt: deletionDate?.epochMilliseconds,
+    hold,
+  }).filter(([, value]) => value !== undefined);
+  const setActions = [
+    ...attributes.map(([name]) => `#${name} = :${name}`),
+    '#transitions = list_append(if_not_exists(#transitions, :empty), :transition)',
+  ];
+  // A log group re-created with the same name starts a new lifecycle, so the
+  // due date of the previous one no longer applies
+  const removeActions = state === 'DETECTED' ? ' REMOVE #dueAt' : '';
+
+  await documentClient.send(
+    new UpdateCommand({
+      TableName: ledgerTableName,
+      Key: buildKey({ logGroupName, region, accountId }),
+      UpdateExpression: `SET ${setActions.join(', ')}${removeActions}`,
+      ExpressionAttributeNames: Object.fromEntries([
+        ...attributes.map(([name]) => [`#${name}`, name]),
+        ['#transitions', 'transitions'],
+        ...(removeActions ? [['#dueAt', 'dueAt']] : []),
+      ]),
+      ExpressionAttributeValues: {
+        ...Object.fromEntries(
+          attributes.map(([name, value]) => [`:${name}`, value])
+        ),
+        ':empty': [],
+        ':transition': [
+          {
+            state,
+            reason,
+            at: now,
+            retentionInDays,
+            storedBytes,
+            dueAt: deletionDate?.toString(),
+          },
+        ],
+      },
+    })
+  );
+  logger.debug('Recorded log group state transition', { state, reason });
+};
+
+/**
+ * Get the current state of a log group in the ledger, `undefined` if the log
+ * group was never recorded
+ *
+ * @param param - options object
+ * @param param.logGroupName - The name of the log group
+ * @param param.region - The AWS region where the log group is located
+ * @param param.accountId - The member account of the log group, if any
+ */
+const getLedgerEntry = async (params: {
+  logGroupName: string;
+  region: string;
+  accountId?: string;
+}) => {
+  const { Item } = await documentClient.send(
+    new GetCommand({
+      TableName: ledgerTableName,
+      Key: buildKey(params),
+      ProjectionExpression: '#state, #reason, #creationTime, #dueAt, #hold',
+      ExpressionAttributeNames: {
+        '#state': 'state',
+        '#reason': 'reason',
+        '#creationTime': 'creationTime',
+        '#dueAt': 'dueAt',
+        '#hold': 'hold',
+      },
+    })
+  );
+
+  return Item ? LedgerEntrySchema.parse(Item) : undefined;
+};
+
+export type { LedgerHold, LedgerState };
+export { getLedgerEntry, recordTransition };
@@ -0,0 +1,211 @@
+import type {
+  CleanupRule,
+  TagCondition,
+  TagConditions,
+} from './schemas/cleanup-rule.ts';
+
+const REGEX_PREFIX = 'regex:';
+
+/**
+ * Escape the characters that have a special meaning in regular expressions
+ */
+const escapeRegExp = (value: string) =>
+  value.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Compile a log group name pattern into a regular expression
+ *
+ * Patterns starting with `regex:` are used as regular expressions as-is, all
+ * other patterns are treated as globs matching the whole log group name, where
+ * `*` matches any sequence of characters (including `/`) and `?` matches any
+ * single character.
+ *
+ * @param pattern - The glob or `regex:` pattern to compile
+ */
+const compilePattern = (pattern: string): RegExp => {
+  if (pattern.startsWith(REGEX_PREFIX)) {
+    return new RegExp(pattern.substring(REGEX_PREFIX.length));
+  }
+
+  const source = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return escapeRegExp(char);
+    })
+    .join('');
+
+  return new RegExp(`^${source}$`);
+};
+
+/**
+ * Get the literal prefix of a pattern, i.e. the part before the first wildcard,
+ * which can be used as a coarse EventBridge `prefix` filter
+ *
+ * Regular expressions have no usable prefix, so an empty string is returned.
+ *
+ * @param pattern - The glob or `regex:` pattern
+ */
+const getLiteralPrefix = (pattern: string): string => {
+  if (pattern.startsWith(REGEX_PREFIX)) return '';
+
+  const wildcardIndex = pattern.search(/[*?]/);
+
+  return wildcardIndex === -1 ? pattern : pattern.substring(0, wildcardIndex);
+};
+
+/**
+ * Create a function that tells whether a log group name should be handled
+ *
+ * A name matches when it starts with one of the `prefixes` or matches one of
+ * the `include` patterns, and doesn't match any of the `exclude` patterns.
+ *
+ * @param param - options object
+ * @param param.prefixes - Log group name prefixes to match
+ * @param param.include - Glob or `regex:` patterns to match
+ * @param param.exclude - Glob or `regex:` patterns to exclude
+ */
+const createLogGroupNameMatcher = ({
+  prefixes,
+  include,
+  exclude,
+}: {
+  prefixes: string[];
+  include: string[];
+  exclude: string[];
+}) => {
+  const includeRegExps = include.map(compilePattern);
+  const excludeRegExps = exclude.map(compilePattern);
+
+  return (logGroupName: string) =>
+    (prefixes.some((prefix) => logGroupName.startsWith(prefix)) ||
+      includeRegExps.some((regExp) => regExp.test(logGroupName))) &&
+    !excludeRegExps.some((regExp) => regExp.test(logGroupName));
+};
+
+/**
+ * Check whether the value of a tag satisfies a tag condition
+ *
+ * @param condition - The condition on the tag
+ * @param value - The value of the tag, `undefined` when the tag is missing
+ */
+const matchesTagCondition = (
+  condition: TagCondition,
+  value: string | undefined
+): boolean => {
+  if (value === undefined) return false;
+  if (typeof condition === 'string') return value === condition;
+  if (Array.isArray(condition)) {
+    return condition.some((allowed) => matchesTagCondition(allowed, value));
+  }
+  if ('prefix' in condition) return value.startsWith(condition.prefix);
+
+  return condition.exists;
+};
+
+/**
+ * Check whether the tags of a log group satisfy all the given conditions
+ *
+ * @param conditions - The conditions on the tag keys
+ * @param tags - The tags of the log group
+ */
+const matchesTagConditions = (
+  conditions: TagConditions,
+  tags: Record<string, string>
+) =>
+  Object.entries(conditions).every(([key, condition]) =>
+    matchesTagCondition(condition, tags[key])
+  );
+
+/**
+ * Check whether a rule has conditions on the tags of the log groups, i.e.
+ * whether their tags must be looked up to apply it
+ *
+ * @param rule - The cleanup rule
+ */
+const hasTagConditions = (rule: CleanupRule) =>
+  Object.keys(rule.requiredTags).length > 0 || rule.anyOfTags.length > 0;
+
+/**
+ * Check whether a log group satisfies the tag conditions of a rule
+ *
+ * The log group must satisfy all `requiredTags` and, if any, all conditions
+ * of one of the `anyOfTags` groups. Log groups whose name matches one of the
+ * `untaggedPatterns` don't need any tag.
+ *
+ * @param rule - The cleanup rule
+ * @param param - options object
+ * @param param.logGroupName - The name of the log group
+ * @param param.tags - The tags of the log group
+ */
+const hasRequiredTags = (
+  rule: CleanupRule,
+  { logGroupName, tags }: { logGroupName: string; tags: Record<string, string> }
+) =>
+  rule.untaggedPatterns.some((pattern) =>
+    compilePattern(pattern).test(logGroupName)
+  ) ||
+  (matchesTagConditions(rule.requiredTags, tags) &&
+    (rule.anyOfTags.length === 0 ||
+      rule.anyOfTags.some((group) => matchesTagConditions(group, tags))));
+
+/**
+ * Create a function that finds, in order, the rules whose name patterns match
+ * a log group, regardless of their required tags
+ *
+ * This lets callers that have to look up the tags of a log group only do so
+ * when one of the candidate rules actually requires tags.
+ *
+ * @param rules - The ordered cleanup rules
+ */
+const createRuleNameMatcher = (rules: CleanupRule[]) => {
+  const matchers = rules.map((rule) => ({
+    rule,
+    matchesName: createLogGroupNameMatcher({
+      prefixes: rule.logGroupPatterns,
+      // Untagged log groups only need to match the name, so the untagged
+      // patterns are name patterns of the rule too
+      include: [...rule.includePatterns, ...rule.untaggedPatterns],
+      exclude: rule.excludePatterns,
+    }),
+  }));
+
+  return (logGroupName: string): CleanupRule[] =>
+    matchers
+      .filter(({ matchesName }) => matchesName(logGroupName))
+      .map(({ rule }) => rule);
+};
+
+/**
+ * Create a function that finds the first rule matching a log group
+ *
+ * A rule matches when the log group name matches its patterns and the log
+ * group satisfies its tag conditions.
+ *
+ * @param rules - The ordered cleanup rules
+ */
+const createRuleMatcher = (rules: CleanupRule[]) => {
+  const findRulesByName = createRuleNameMatcher(rules);
+
+  return ({
+    logGroupName,
+    tags = {},
+  }: {
+    logGroupName: string;
+    tags?: Record<string, string>;
+  }): CleanupRule | undefined =>
+    findRulesByName(logGroupName).find((rule) =>
+      hasRequiredTags(rule, { logGroupName, tags })
+    );
+};
+
+export {
+  compilePattern,
+  createLogGroupNameMatcher,
+  createRuleMatcher,
+  createRuleNameMatcher,
+  getLiteralPrefix,
+  hasRequiredTags,
+  hasTagConditions,
+};
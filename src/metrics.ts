@@ -0,0 +1,41 @@
+import { Metrics, MetricUnit } from '@aws-lambda-powertools/metrics';
+import type { MetricUnit as MetricUnitValue } from '@aws-lambda-powertools/metrics/types';
+
+const metrics = new Metrics({});
+
+/**
+ * Record a business metric, both overall and broken down by region and
+ * cleanup rule
+ *
+ * The overall metric is buffered with the rest of the invocation and backs the
+ * alarms. The records of a batch can target different regions and rules, so
+ * the broken down metric is flushed right away with its own dimensions.
+ *
+ * @param param - options object
+ * @param param.name - The name of the metric
+ * @param param.region - The AWS region of the log group
+ * @param param.ruleName - The cleanup rule that matched the log group, if any
+ * @param param.unit - The unit of the metric, `Count` by default
+ * @param param.value - The value of the metric, 1 by default
+ */
+const addBusinessMetric = ({
+  name,
+  region,
+  ruleName,
+  unit = MetricUnit.Count,
+  value = 1,
+}: {
+  name: string;
+  region: string;
+  ruleName?: string;
+  unit?: MetricUnitValue;
+  value?: number;
+}) => {
+  metrics.addMetric(name, unit, value);
+
+  const singleMetric = metrics.singleMetric();
+  singleMetric.addDimensions({ region, rule: ruleName ?? 'none' });
+  singleMetric.addMetric(name, unit, value);
+};
+
+export { addBusinessMetric, metrics };
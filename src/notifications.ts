@@ -0,0 +1,59 @@
+import { addUserAgentMiddleware } from '@aws-lambda-powertools/commons';
+import { getStringFromEnv } from '@aws-lambda-powertools/commons/utils/env';
+import {
+  InvocationType,
+  InvokeCommand,
+  LambdaClient,
+} from '@aws-sdk/client-lambda';
+import { logger } from './logger.ts';
+import type { NotificationEvent } from './schemas/notification.ts';
+
+const lambdaClient = new LambdaClient({
+  retryMode: 'adaptive',
+  maxAttempts: 5,
+});
+addUserAgentMiddleware(lambdaClient, 'NO-OP');
+
+/**
+ * Build the CloudWatch console URL of a log group
+ *
+ * @param param - options object
+ * @param param.logGroupName - The name of the log group
+ * @param param.region - The AWS region where the log group is located
+ */
+const buildLogGroupUrl = ({
+  logGroupName,
+  region,
+}: {
+  logGroupName: string;
+  region: string;
+}) =>
+  `https://${region}.console.aws.amazon.com/cloudwatch/home?region=${region}#logsV2:log-groups/log-group/${encodeURIComponent(logGroupName).replaceAll('%', '$25')}`;
+
+/**
+ * Send a notification to Slack through the notifier function
+ *
+ * The function is invoked asynchronously so that a slow or failing webhook
+ * doesn't hold up the caller.
+ *
+ * @param notification - The notification to send
+ */
+const sendNotification = async (
+  notification: Omit<NotificationEvent, 'source'>
+) => {
+  const functionName = getStringFromEnv({ key: 'NOTIFIER_FUNCTION_NAME' });
+
+  await lambdaClient.send(
+    new InvokeCommand({
+      FunctionName: functionName,
+      InvocationType: InvocationType.Event,
+      Payload: JSON.stringify({
+        source: 'cwlogs-garbage-goober',
+        ...notification,
+      } satisfies NotificationEvent),
+    })
+  );
+  logger.debug('Sent notification', { title: notification.title });
+};
+
+export { buildLogGroupUrl, sendNotification };
@@ -0,0 +1,76 @@
+import { getStringFromEnv } from '@aws-lambda-powertools/commons/utils/env';
+import { Temporal } from 'temporal-polyfill';
+
+const [protectionTagKey, protectionTagValue] = getStringFromEnv({
+  key: 'PROTECTION_TAG',
+  defaultValue: 'goober:keep=true',
+}).split('=', 2);
+const keepUntilTagKey = getStringFromEnv({
+  key: 'KEEP_UNTIL_TAG',
+  defaultValue: 'goober:keep-until',
+});
+
+/**
+ * Parse the value of a keep-until tag, either a full timestamp or a date,
+ * in which case the log group is kept until the end of that day (UTC)
+ *
+ * @param value - The value of the tag
+ */
+const parseKeepUntil = (value: string) => {
+  try {
+    return Temporal.Instant.from(value);
+  } catch {
+    // Not a timestamp, try a plain date below
+  }
+  try {
+    return Temporal.PlainDate.from(value)
+      .add({ days: 1 })
+      .toZonedDateTime('UTC')
+      .toInstant();
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Check whether the log group must survive the deletion for now, based on its
+ * current tags
+ *
+ * Log groups carrying the protection tag are kept, while log groups carrying
+ * a keep-until tag in the future are kept until then. Keep-until tags that
+ * can't be parsed also keep the log group, to err on the side of not deleting
+ * data someone asked to keep.
+ *
+ * @param tags - The current tags of the log group
+ */
+const getDeletionHold = (
+  tags: Record<string, string>
+):
+  | { action: 'skip'; reason: string }
+  | { action: 'postpone'; until: Temporal.Instant }
+  | undefined => {
+  const protectionTag = tags[protectionTagKey];
+  if (
+    protectionTag !== undefined &&
+    (protectionTagValue === undefined || protectionTag === protectionTagValue)
+  ) {
+    return { action: 'skip', reason: 'Log group carries the protection tag' };
+  }
+
+  const keepUntilTag = tags[keepUntilTagKey];
+  if (keepUntilTag === undefined) return undefined;
+  const until = parseKeepUntil(keepUntilTag);
+  if (until === undefined) {
+    return {
+      action: 'skip',
+      reason: `Log group carries an invalid ${keepUntilTagKey} tag`,
+    };
+  }
+  if (Temporal.Instant.compare(until, Temporal.Now.instant()) > 0) {
+    return { action: 'postpone', until };
+  }
+
+  return undefined;
+};
+
+export { getDeletionHold };
@@ -0,0 +1,175 @@
+import { paginateDescribeLogGroups } from '@aws-sdk/client-cloudwatch-logs';
+import type { Context } from 'aws-lambda';
+import {
+  applyDeletionPlan,
+  configuredRegions,
+  fetchLogGroupTags,
+  planLogGroupDeletion,
+} from './backfill.ts';
+import { getRegionalCwClient } from './cloudwatch.ts';
+import { getLedgerEntry } from './ledger.ts';
+import { logger } from './logger.ts';
+import { sendNotification } from './notifications.ts';
+import { getDeletionHold } from './protection.ts';
+import { getScheduleName } from './schedule-names.ts';
+import {
+  deleteSchedule,
+  listSchedules,
+  schedulingBackendName,
+} from './scheduling.ts';
+
+/**
+ * Maximum number of log group names listed per kind of drift in the report
+ */
+const MAX_REPORTED_LOG_GROUPS = 10;
+
+/**
+ * Whether the deletion of a log group is already being processed
+ *
+ * Schedules are deleted once they fire, so a log group whose deletion is due
+ * has no schedule while its message is in the deletion queue, e.g. while its
+ * export to the archive bucket runs. The ledger then still records it as
+ * scheduled, with a due date in the past.
+ *
+ * @param param - options object
+ * @param param.logGroupName - The name of the log group
+ * @param param.region - The AWS region where the log group is located
+ * @param param.creationTime - When the log group was created
+ */
+const isDeletionInFlight = async ({
+  logGroupName,
+  region,
+  creationTime,
+}: {
+  logGroupName: string;
+  region: string;
+  creationTime: number;
+}) => {
+  const entry = await getLedgerEntry({ logGroupName, region });
+  if (entry?.state !== 'SCHEDULED' || entry.dueAt === undefined) return false;
+  if (entry.creationTime !== undefined && entry.creationTime !== creationTime) {
+    return false;
+  }
+
+  return entry.dueAt <= Date.now();
+};
+
+/**
+ * Build a human readable summary of a kind of drift for the report
+ *
+ * @param label - What the log groups have in common
+ * @param logGroupNames - The log groups affected by the drift
+ */
+const describeDrift = (label: string, logGroupNames: string[]) => {
+  const listed = logGroupNames.slice(0, MAX_REPORTED_LOG_GROUPS).join(', ');
+  const more = logGroupNames.length - MAX_REPORTED_LOG_GROUPS;
+
+  return `${logGroupNames.length} ${label}: ${listed}${more > 0 ? ` and ${more} more` : ''}`;
+};
+
+/**
+ * Reconcile the deletion schedules with the log groups that actually exist
+ *
+ * - Schedules whose log group is gone, or was re-created since, are deleted
+ * - Log groups matching a cleanup rule but without a schedule, e.g. because
+ *   their creation event ended up in the DLQ, get one
+ *
+ * A drift report is sent to Slack whenever either kind of drift is found.
+ */
+export const handler = async (_event: unknown, context: Context) => {
+  logger.addContext(context);
+
+  // Only the log groups of the account of the app are reconciled, the
+  // schedules of member accounts are left alone
+  const schedules = new Map(
+    (await listSchedules())
+      .filter(({ accountId }) => accountId === undefined)
+      .map((schedule) => [schedule.scheduleName, schedule])
+  );
+  const regions = new Set([
+    ...configuredRegions,
+    ...[...schedules.values()].map((schedule) => schedule.region),
+  ]);
+
+  // Schedule names embed the creation time of the log group, so a schedule
+  // is only live if the log group it was created for still exists
+  const liveScheduleNames = new Set<string>();
+  const missing: string[] = [];
+  for (const region of regions) {
+    for await (const page of paginateDescribeLogGroups(
+      { client: getRegionalCwClient(region) },
+      {}
+    )) {
+      for (const logGroup of page.logGroups ?? []) {
+        const { logGroupName, creationTime } = logGroup;
+        if (!logGroupName || creationTime === undefined) continue;
+
+        const scheduleName = getScheduleName({
+          logGroupName,
+          region,
+          creationTime,
+        });
+        if (schedules.has(scheduleName)) {
+          liveScheduleNames.add(scheduleName);
+          continue;
+        }
+
+        const plan = await planLogGroupDeletion({ logGroup, region });
+        if (plan.outcome !== 'due') continue;
+        // Protected log groups lose their schedule when it fires, but they
+        // aren't drift
+        const tags = await fetchLogGroupTags({
+          region,
+          logGroupArn: logGroup.logGroupArn,
+        });
+        if (getDeletionHold(tags)?.action === 'skip') continue;
+        if (await isDeletionInFlight({ logGroupName, region, creationTime })) {
+          logger.info('Deletion of the log group is in progress, skipping', {
+            logGroupName,
+          });
+          continue;
+        }
+        await applyDeletionPlan(plan);
+        missing.push(logGroupName);
+      }
+    }
+  }
+
+  const orphaned: string[] = [];
+  for (const [scheduleName, { logGroupName }] of schedules) {
+    if (liveScheduleNames.has(scheduleName)) continue;
+    await deleteSchedule(scheduleName);
+    orphaned.push(logGroupName);
+  }
+
+  const summary = {
+    schedules: schedules.size,
+    orphaned: orphaned.length,
+    missing: missing.length,
+  };
+  logger.info('Reconciliation completed', { summary });
+  if (orphaned.length === 0 && missing.length === 0) {
+    return summary;
+  }
+
+  const region = process.env.AWS_REGION;
+  await sendNotification({
+    title: 'Deletion schedule drift detected',
+    description: [
+      orphaned.length > 0 &&
+        describeDrift('orphaned schedules deleted', orphaned),
+      missing.length > 0 &&
+        describeDrift('log groups without schedule handled', missing),
+    ]
+      .filter(Boolean)
+      .join('\n'),
+    region,
+    time: new Date().toISOString(),
+    url:
+      schedulingBackendName === 'dynamodb'
+        ? `https://${region}.console.aws.amazon.com/dynamodbv2/home?region=${region}#tables`
+        : `https://${region}.console.aws.amazon.com/scheduler/home?region=${region}#schedules`,
+  });
+
+  return summary;
+};
@@ -0,0 +1,63 @@
+import { createHash } from 'node:crypto';
+
+/**
+ * Name prefix shared by all deletion schedules of the app
+ */
+const SCHEDULE_NAME_PREFIX = 'DeleteLogGroup-';
+
+/**
+ * Hex-encoded SHA-256 digest of the value, truncated to the given length
+ */
+const hash = (value: string, length: number) =>
+  createHash('sha256').update(value).digest('hex').substring(0, length);
+
+/**
+ * Get the name prefix shared by all deletion schedules of a log group,
+ * regardless of when the log group was created
+ *
+ * The log groups of member accounts also hash their account, while the ones
+ * of the account of the app keep the names they had before multi-account mode.
+ *
+ * @param param - options object
+ * @param param.logGroupName - The name of the log group
+ * @param param.region - The AWS region where the log group is located
+ * @param param.accountId - The member account of the log group, if any
+ */
+const getScheduleNamePrefix = ({
+  logGroupName,
+  region,
+  accountId,
+}: {
+  logGroupName: string;
+  region: string;
+  accountId?: string;
+}) =>
+  `${SCHEDULE_NAME_PREFIX}${hash(`${accountId ? `${accountId}:` : ''}${region}:${logGroupName}`, 24)}-`;
+
+/**
+ * Get the deterministic name of the deletion schedule for a log group
+ *
+ * The name is derived from the region, log group name and creation time so
+ * that redeliveries of the same event always target the same schedule, while
+ * a log group re-created with the same name gets a schedule of its own.
+ *
+ * @param param - options object
+ * @param param.logGroupName - The name of the log group
+ * @param param.region - The AWS region where the log group is located
+ * @param param.creationTime - The time the log group was created (epoch millis)
+ * @param param.accountId - The member account of the log group, if any
+ */
+const getScheduleName = ({
+  logGroupName,
+  region,
+  creationTime,
+  accountId,
+}: {
+  logGroupName: string;
+  region: string;
+  creationTime: number;
+  accountId?: string;
+}) =>
+  `${getScheduleNamePrefix({ logGroupName, region, accountId })}${hash(`${region}:${logGroupName}:${creationTime}`, 16)}`;
+
+export { getScheduleName, getScheduleNamePrefix, SCHEDULE_NAME_PREFIX };
@@ -0,0 +1,322 @@
+import { addUserAgentMiddleware } from '@aws-lambda-powertools/commons';
+import { getStringFromEnv } from '@aws-lambda-powertools/commons/utils/env';
+import {
+  ConditionalCheckFailedException,
+  DynamoDBClient,
+} from '@aws-sdk/client-dynamodb';
+import {
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  paginateQuery,
+  paginateScan,
+  ScanCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { Temporal } from 'temporal-polyfill';
+import { z } from 'zod';
+import { logger } from './logger.ts';
+import { getScheduleNamePrefix } from './schedule-names.ts';
+import type { ScheduledDeletion, SchedulingBackend } from './types.ts';
+
+const dynamoDbClient = new DynamoDBClient({
+  retryMode: 'adaptive',
+  maxAttempts: 5,
+});
+addUserAgentMiddleware(dynamoDbClient, 'NO-OP');
+const documentClient = DynamoDBDocumentClient.from(dynamoDbClient, {
+  // Optional attributes like the rule name are omitted rather than stored
+  marshallOptions: { removeUndefinedValues: true },
+});
+
+/**
+ * Partition key value of the due index, shared by all pending deletions
+ */
+const PENDING_STATUS = 'PENDING';
+
+const ScheduleItemSchema = z.object({
+  scheduleName: z.string(),
+  logGroupName: z.string(),
+  awsRegion: z.string(),
+  ruleName: z.string().optional(),
+  ruleAction: z.enum(['delete', 'archive']).optional(),
+  dryRun: z.boolean().optional(),
+  postponeCount: z.number().int().optional(),
+  correlationId: z.string().optional(),
+  accountId: z.string().optional(),
+  dueAt: z.number(),
+});
+
+/**
+ * Where a page of schedules stopped, the key of the last item read
+ */
+const CursorSchema = z
+  .strictObject({ pk: z.string(), scheduleName: z.string() })
+  .optional();
+
+/**
+ * Parse a table item into a pending deletion, `undefined` if it's malformed
+ *
+ * @param item - The item as returned by the document client
+ */
+const parseScheduleItem = (item: Record<string, unknown>) => {
+  const parsed = ScheduleItemSchema.safeParse(item);
+  if (!parsed.success) {
+    logger.warn('Schedule item is malformed, ignoring it', {
+      scheduleName: item.scheduleName,
+    });
+    return;
+  }
+  const { awsRegion, ...rest } = parsed.data;
+
+  return {
+    ...rest,
+    region: awsRegion,
+    deletionDate: Temporal.Instant.fromEpochMilliseconds(rest.dueAt),
+  };
+};
+
+/**
+ * Schedule names end with a hash of the creation time, so all the schedules
+ * of a log group share the partition made of the rest of the name
+ *
+ * @param scheduleName - The name of the schedule
+ */
+const getPartitionKey = (scheduleName: string) =>
+  scheduleName.substring(0, scheduleName.lastIndexOf('-') + 1);
+
+/**
+ * Create a scheduling backend storing one item per log group in a DynamoDB
+ * table, the dispatcher then sends the due ones to the deletion queue
+ *
+ * Unlike EventBridge Scheduler, the table has no quota on the number of
+ * pending deletions and can be queried by due date.
+ */
+const createScheduleTableBackend = (): SchedulingBackend => {
+  const tableName = getStringFromEnv({ key: 'SCHEDULE_TABLE_NAME' });
+
+  const putSchedule = async (
+    {
+      scheduleName,
+      logGroupName,
+      region,
+      ruleName,
+      ruleAction,
+      dryRun,
+      postponeCount,
+      correlationId,
+      accountId,
+      deletionDate,
+    }: ScheduledDeletion & { deletionDate: Temporal.Instant },
+    condition?: string
+  ) => {
+    await documentClient.send(
+      new PutCommand({
+        TableName: tableName,
+        Item: {
+          pk: getPartitionKey(scheduleName),
+          scheduleName,
+          logGroupName,
+          awsRegion: region,
+          ruleName,
+          ruleAction,
+          dryRun,
+          postponeCount,
+          correlationId,
+          accountId,
+          status: PENDING_STATUS,
+          dueAt: deletionDate.epochMilliseconds,
+        },
+        ConditionExpression: condition,
+      })
+    );
+  };
+
+  return {
+    upsertSchedule: async (params) => {
+      await putSchedule(params);
+      logger.info('Stored deletion schedule', {
+        scheduleName: params.scheduleName,
+        ruleName: params.ruleName,
+        dryRun: params.dryRun,
+        deletionDate: params.deletionDate.toString(),
+      });
+    },
+    updateSchedule: (params) =>
+      putSchedule(params, 'attribute_exists(scheduleName)'),
+    getSchedule: async (scheduleName) => {
+      const { Item } = await documentClient.send(
+        new GetCommand({
+          TableName: tableName,
+          Key: { pk: getPartitionKey(scheduleName), scheduleName },
+        })
+      );
+      if (!Item) return;
+
+      return parseScheduleItem(Item);
+    },
+    deleteSchedule: async (scheduleName) => {
+      await documentClient.send(
+        new DeleteCommand({
+          TableName: tableName,
+          Key: { pk: getPartitionKey(scheduleName), scheduleName },
+        })
+      );
+      logger.info('Deleted deletion schedule', { scheduleName });
+    },
+    listScheduleNames: async (params) => {
+      const scheduleNames: string[] = [];
+      for await (const page of paginateQuery(
+        { client: documentClient },
+        {
+          TableName: tableName,
+          KeyConditionExpression: 'pk = :pk',
+          ExpressionAttributeValues: { ':pk': getScheduleNamePrefix(params) },
+          ProjectionExpression: 'scheduleName',
+        }
+      )) {
+        for (const { scheduleName } of page.Items ?? []) {
+          scheduleNames.push(scheduleName);
+        }
+      }
+
+      return scheduleNames;
+    },
+    listSchedules: async () => {
+      const schedules: ScheduledDeletion[] = [];
+      for await (const page of paginateScan(
+        { client: documentClient },
+        { TableName: tableName }
+      )) {
+        for (const item of page.Items ?? []) {
+          const schedule = parseScheduleItem(item);
+          if (schedule) schedules.push(schedule);
+        }
+      }
+
+      return schedules;
+    },
+    // The filter is applied by the scan, so that only the matching items are
+    // returned and the page stops right after the last one of them
+    findSchedulesPage: async ({ prefix, region, limit, cursor }) => {
+      const position = CursorSchema.safeParse(cursor);
+      if (!position.success) return;
+      const filters = [
+        ...(prefix === undefined ? [] : ['begins_with(logGroupName, :prefix)']),
+        ...(region === undefined ? [] : ['awsRegion = :region']),
+      ];
+      const schedules: ScheduledDeletion[] = [];
+      let startKey: Record<string, unknown> | undefined = position.data;
+      do {
+        const { Items = [], LastEvaluatedKey } = await documentClient.send(
+          new ScanCommand({
+            TableName: tableName,
+            ExclusiveStartKey: startKey,
+            ...(filters.length > 0 && {
+              FilterExpression: filters.join(' AND '),
+              ExpressionAttributeValues: {
+                ...(prefix !== undefined && { ':prefix': prefix }),
+                ...(region !== undefined && { ':region': region }),
+              },
+            }),
+          })
+        );
+        for (const item of Items) {
+          const schedule = parseScheduleItem(item);
+          if (schedule) schedules.push(schedule);
+          if (schedules.length >= limit) {
+            return {
+              schedules,
+              cursor: { pk: item.pk, scheduleName: item.scheduleName },
+            };
+          }
+        }
+        startKey = LastEvaluatedKey;
+      } while (startKey);
+
+      return { schedules };
+    },
+  };
+};
+
+/**
+ * List the pending deletions whose due date has passed, oldest first
+ *
+ * @param param - options object
+ * @param param.tableName - The name of the schedule table
+ * @param param.indexName - The name of the index sorting the schedules by due date
+ * @param param.now - The current time
+ */
+const listDueSchedules = async ({
+  tableName,
+  indexName,
+  now,
+}: {
+  tableName: string;
+  indexName: string;
+  now: Temporal.Instant;
+}) => {
+  const schedules: NonNullable<ReturnType<typeof parseScheduleItem>>[] = [];
+  for await (const page of paginateQuery(
+    { client: documentClient },
+    {
+      TableName: tableName,
+      IndexName: indexName,
+      KeyConditionExpression: '#status = :status AND dueAt <= :now',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: {
+        ':status': PENDING_STATUS,
+        ':now': now.epochMilliseconds,
+      },
+    }
+  )) {
+    for (const item of page.Items ?? []) {
+      const schedule = parseScheduleItem(item);
+      if (schedule) schedules.push(schedule);
+    }
+  }
+
+  return schedules;
+};
+
+/**
+ * Remove a pending deletion once it was dispatched, unless it was moved to
+ * another due date in the meantime
+ *
+ * @param param - options object
+ * @param param.tableName - The name of the schedule table
+ * @param param.scheduleName - The name of the schedule
+ * @param param.dueAt - The due date the deletion was dispatched for (epoch millis)
+ */
+const removeDispatchedSchedule = async ({
+  tableName,
+  scheduleName,
+  dueAt,
+}: {
+  tableName: string;
+  scheduleName: string;
+  dueAt: number;
+}) => {
+  try {
+    await documentClient.send(
+      new DeleteCommand({
+        TableName: tableName,
+        Key: { pk: getPartitionKey(scheduleName), scheduleName },
+        ConditionExpression: 'dueAt = :dueAt',
+        ExpressionAttributeValues: { ':dueAt': dueAt },
+      })
+    );
+  } catch (error) {
+    if (error instanceof ConditionalCheckFailedException) {
+      logger.info('Deletion schedule was moved, keeping it', { scheduleName });
+      return;
+    }
+    throw error;
+  }
+};
+
+export {
+  createScheduleTableBackend,
+  listDueSchedules,
+  removeDispatchedSchedule,
+};
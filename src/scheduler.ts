@@ -0,0 +1,295 @@
+import { addUserAgentMiddleware } from '@aws-lambda-powertools/commons';
+import { getStringFromEnv } from '@aws-lambda-powertools/commons/utils/env';
+import {
+  ActionAfterCompletion,
+  ConflictException,
+  CreateScheduleCommand,
+  DeleteScheduleCommand,
+  FlexibleTimeWindowMode,
+  GetScheduleCommand,
+  ListSchedulesCommand,
+  paginateListSchedules,
+  ResourceNotFoundException,
+  SchedulerClient,
+  UpdateScheduleCommand,
+} from '@aws-sdk/client-scheduler';
+import { Temporal } from 'temporal-polyfill';
+import { z } from 'zod';
+import { logger } from './logger.ts';
+import {
+  getScheduleNamePrefix,
+  SCHEDULE_NAME_PREFIX,
+} from './schedule-names.ts';
+import { tracer } from './tracer.ts';
+import type { ScheduledDeletion, SchedulingBackend } from './types.ts';
+
+const schedulerClient = tracer.captureAWSv3Client(
+  new SchedulerClient({
+    retryMode: 'adaptive',
+    maxAttempts: 5,
+  })
+);
+addUserAgentMiddleware(schedulerClient, 'NO-OP');
+
+const ScheduleInputSchema = z.object({
+  logGroupName: z.string(),
+  awsRegion: z.string(),
+  ruleName: z.string().optional(),
+  ruleAction: z.enum(['delete', 'archive']).optional(),
+  dryRun: z.boolean().optional(),
+  postponeCount: z.number().int().optional(),
+  correlationId: z.string().optional(),
+  accountId: z.string().optional(),
+});
+
+/**
+ * Where a page of schedules stopped, the token of the `ListSchedules` page and
+ * how many of its schedules were already read
+ */
+const CursorSchema = z.strictObject({
+  page: z.string().optional(),
+  offset: z.number().int().nonnegative().default(0),
+});
+
+/**
+ * How many schedules are read at the same time, to stay within the
+ * `GetSchedule` quota
+ */
+const READ_CONCURRENCY = 10;
+
+/**
+ * Marker prepended to the description of schedules created in dry-run mode
+ */
+const DRY_RUN_MARKER = '[dry-run]';
+
+/**
+ * Read the deletion date back from the `at()` expression of a schedule, which
+ * is always in UTC
+ *
+ * @param expression - The schedule expression
+ */
+const parseAtExpression = (expression?: string) => {
+  const match = /^at\((.+)\)$/.exec(expression ?? '');
+
+  return match ? Temporal.Instant.from(`${match[1]}Z`) : undefined;
+};
+
+/**
+ * Create a scheduling backend with one EventBridge Scheduler schedule per
+ * log group, each sending the log group to the deletion queue when it fires
+ */
+const createSchedulerBackend = (): SchedulingBackend => {
+  const deletionQueueArn = getStringFromEnv({ key: 'DELETION_QUEUE_ARN' });
+  const schedulerRoleArn = getStringFromEnv({ key: 'SCHEDULER_ROLE_ARN' });
+  const scheduleGroupName = getStringFromEnv({ key: 'SCHEDULE_GROUP_NAME' });
+
+  /**
+   * Build the parts of a deletion schedule that are shared between
+   * the create and update operations
+   */
+  const buildScheduleDefinition = ({
+    deletionDate,
+    logGroupName,
+    region,
+    ruleName,
+    ruleAction,
+    dryRun,
+    postponeCount,
+    correlationId,
+    accountId,
+  }: Omit<ScheduledDeletion, 'scheduleName'> & {
+    deletionDate: Temporal.Instant;
+  }) => ({
+    GroupName: scheduleGroupName,
+    Description: dryRun
+      ? `${DRY_RUN_MARKER} Created in dry-run mode, won't delete the log group`
+      : undefined,
+    ScheduleExpression: `at(${deletionDate.toString({ smallestUnit: 'second' }).replace('Z', '')})`,
+    FlexibleTimeWindow: {
+      Mode: FlexibleTimeWindowMode.FLEXIBLE,
+      MaximumWindowInMinutes: 5,
+    },
+    Target: {
+      RoleArn: schedulerRoleArn,
+      Arn: deletionQueueArn,
+      Input: JSON.stringify({
+        logGroupName: logGroupName,
+        awsRegion: region,
+        ruleName,
+        ruleAction,
+        dryRun,
+        postponeCount,
+        correlationId,
+        accountId,
+      }),
+    },
+    ActionAfterCompletion: ActionAfterCompletion.DELETE,
+  });
+
+  const listNames = async (namePrefix: string) => {
+    const scheduleNames: string[] = [];
+    for await (const page of paginateListSchedules(
+      { client: schedulerClient },
+      { GroupName: scheduleGroupName, NamePrefix: namePrefix }
+    )) {
+      for (const { Name } of page.Schedules ?? []) {
+        if (Name) scheduleNames.push(Name);
+      }
+    }
+
+    return scheduleNames;
+  };
+
+  const getSchedule = async (scheduleName: string) => {
+    try {
+      const { Target, ScheduleExpression } = await schedulerClient.send(
+        new GetScheduleCommand({
+          Name: scheduleName,
+          GroupName: scheduleGroupName,
+        })
+      );
+      const input = ScheduleInputSchema.safeParse(
+        JSON.parse(Target?.Input ?? '{}')
+      );
+      if (!input.success) {
+        logger.warn('Schedule has an unexpected input, ignoring it', {
+          scheduleName,
+        });
+        return;
+      }
+      const { logGroupName, awsRegion, ...rest } = input.data;
+
+      return {
+        scheduleName,
+        logGroupName,
+        region: awsRegion,
+        ...rest,
+        deletionDate: parseAtExpression(ScheduleExpression),
+      };
+    } catch (error) {
+      if (error instanceof ResourceNotFoundException) return;
+      throw error;
+    }
+  };
+
+  /**
+   * Read the schedules, a few at a time, skipping the ones that no longer
+   * exist. `ListSchedules` doesn't return the target input, so each schedule
+   * is read individually.
+   */
+  const readSchedules = async (scheduleNames: string[]) => {
+    const schedules: ScheduledDeletion[] = [];
+    for (let i = 0; i < scheduleNames.length; i += READ_CONCURRENCY) {
+      const batch = scheduleNames.slice(i, i + READ_CONCURRENCY);
+      for (const schedule of await Promise.all(batch.map(getSchedule))) {
+        if (schedule) schedules.push(schedule);
+      }
+    }
+
+    return schedules;
+  };
+
+  return {
+    upsertSchedule: async ({ scheduleName, ...params }) => {
+      const definition = buildScheduleDefinition(params);
+      const logAttributes = {
+        scheduleName,
+        ruleName: params.ruleName,
+        dryRun: params.dryRun,
+        deletionDate: params.deletionDate.toString(),
+      };
+
+      try {
+        await schedulerClient.send(
+          new CreateScheduleCommand({ Name: scheduleName, ...definition })
+        );
+        logger.info('Created deletion schedule', logAttributes);
+      } catch (error) {
+        if (!(error instanceof ConflictException)) {
+          throw error;
+        }
+        await schedulerClient.send(
+          new UpdateScheduleCommand({ Name: scheduleName, ...definition })
+        );
+        logger.info(
+          'Deletion schedule already exists, updated it',
+          logAttributes
+        );
+      }
+    },
+    updateSchedule: async ({ scheduleName, ...params }) => {
+      await schedulerClient.send(
+        new UpdateScheduleCommand({
+          Name: scheduleName,
+          ...buildScheduleDefinition(params),
+        })
+      );
+    },
+    getSchedule,
+    deleteSchedule: async (scheduleName) => {
+      try {
+        await schedulerClient.send(
+          new DeleteScheduleCommand({
+            Name: scheduleName,
+            GroupName: scheduleGroupName,
+          })
+        );
+        logger.info('Deleted deletion schedule', { scheduleName });
+      } catch (error) {
+        if (error instanceof ResourceNotFoundException) {
+          logger.warn('Deletion schedule already deleted', { scheduleName });
+          return;
+        }
+        throw error;
+      }
+    },
+    listScheduleNames: (params) => listNames(getScheduleNamePrefix(params)),
+    listSchedules: async () =>
+      readSchedules(await listNames(SCHEDULE_NAME_PREFIX)),
+    findSchedulesPage: async ({ prefix, region, limit, cursor = {} }) => {
+      const position = CursorSchema.safeParse(cursor);
+      if (!position.success) return;
+      let { page, offset } = position.data;
+      const schedules: ScheduledDeletion[] = [];
+      do {
+        const { Schedules = [], NextToken } = await schedulerClient.send(
+          new ListSchedulesCommand({
+            GroupName: scheduleGroupName,
+            NamePrefix: SCHEDULE_NAME_PREFIX,
+            NextToken: page,
+          })
+        );
+        const scheduleNames = Schedules.flatMap(({ Name }) =>
+          Name ? [Name] : []
+        );
+        while (offset < scheduleNames.length) {
+          const batch = scheduleNames.slice(offset, offset + READ_CONCURRENCY);
+          const read = await Promise.all(batch.map(getSchedule));
+          for (const [index, schedule] of read.entries()) {
+            if (
+              schedule &&
+              (prefix === undefined ||
+                schedule.logGroupName.startsWith(prefix)) &&
+              (region === undefined || schedule.region === region)
+            ) {
+              schedules.push(schedule);
+            }
+            if (schedules.length >= limit) {
+              return {
+                schedules,
+                cursor: { page, offset: offset + index + 1 },
+              };
+            }
+          }
+          offset += batch.length;
+        }
+        page = NextToken;
+        offset = 0;
+      } while (page);
+
+      return { schedules };
+    },
+  };
+};
+
+export { createSchedulerBackend, schedulerClient };
@@ -0,0 +1,118 @@
+import {
+  getBooleanFromEnv,
+  getStringFromEnv,
+} from '@aws-lambda-powertools/commons/utils/env';
+import { z } from 'zod';
+import { createScheduleTableBackend } from './schedule-table.ts';
+import { createSchedulerBackend } from './scheduler.ts';
+import type { ScheduledDeletion, SchedulingBackend } from './types.ts';
+
+const schedulingBackendName = z
+  .enum(['scheduler', 'dynamodb'])
+  .parse(
+    getStringFromEnv({ key: 'SCHEDULING_BACKEND', defaultValue: 'scheduler' })
+  );
+
+const dryRun = getBooleanFromEnv({ key: 'DRY_RUN', defaultValue: false });
+
+const backend =
+  schedulingBackendName === 'dynamodb'
+    ? createScheduleTableBackend()
+    : createSchedulerBackend();
+const { getSchedule, deleteSchedule, listScheduleNames, listSchedules } =
+  backend;
+
+// Schedules created in dry-run mode are marked, so that they don't delete
+// anything even if they fire after dry-run mode was turned off
+const upsertSchedule: SchedulingBackend['upsertSchedule'] = (params) =>
+  backend.upsertSchedule({ ...params, ...(dryRun && { dryRun }) });
+const updateSchedule: SchedulingBackend['updateSchedule'] = (params) =>
+  backend.updateSchedule({ ...params, ...(dryRun && { dryRun }) });
+
+/**
+ * Order pending deletions by deletion date, soonest first
+ */
+const bySoonestFirst = (a: ScheduledDeletion, b: ScheduledDeletion) =>
+  (a.deletionDate?.epochMilliseconds ?? 0) -
+  (b.deletionDate?.epochMilliseconds ?? 0);
+
+/**
+ * List the pending deletions, soonest first, optionally only the ones of the
+ * log groups whose name starts with the given prefix or located in the given
+ * region
+ *
+ * @param param - options object
+ * @param param.prefix - The prefix of the log group names
+ * @param param.region - The AWS region of the log groups
+ */
+const findSchedules = async ({
+  prefix,
+  region,
+}: {
+  prefix?: string;
+  region?: string;
+}) =>
+  (await listSchedules())
+    .filter(
+      (schedule) =>
+        (prefix === undefined || schedule.logGroupName.startsWith(prefix)) &&
+        (region === undefined || schedule.region === region)
+    )
+    .sort(bySoonestFirst);
+
+/**
+ * List a page of the pending deletions, soonest first within the page,
+ * optionally only the ones of the log groups whose name starts with the given
+ * prefix or located in the given region
+ *
+ * The backend stops listing once `limit` deletions were found, and the page
+ * comes with an opaque token to list the next one. Returns `undefined` when
+ * the token is invalid.
+ *
+ * @param param - options object
+ * @param param.prefix - The prefix of the log group names
+ * @param param.region - The AWS region of the log groups
+ * @param param.limit - The maximum number of deletions of the page
+ * @param param.nextToken - The token returned with the previous page, if any
+ */
+const findSchedulePage = async ({
+  nextToken,
+  ...params
+}: {
+  prefix?: string;
+  region?: string;
+  limit: number;
+  nextToken?: string;
+}) => {
+  let cursor: unknown;
+  try {
+    cursor =
+      nextToken === undefined
+        ? undefined
+        : JSON.parse(Buffer.from(nextToken, 'base64url').toString());
+  } catch {
+    return;
+  }
+  const page = await backend.findSchedulesPage({ ...params, cursor });
+  if (!page) return;
+
+  return {
+    schedules: page.schedules.sort(bySoonestFirst),
+    nextToken:
+      page.cursor === undefined
+        ? undefined
+        : Buffer.from(JSON.stringify(page.cursor)).toString('base64url'),
+  };
+};
+
+export {
+  deleteSchedule,
+  findSchedulePage,
+  findSchedules,
+  getSchedule,
+  listScheduleNames,
+  listSchedules,
+  schedulingBackendName,
+  updateSchedule,
+  upsertSchedule,
+};
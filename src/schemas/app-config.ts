@@ -0,0 +1,214 @@
+import { z } from 'zod';
+import { CleanupRuleSchema, TagConditionsSchema } from './cleanup-rule.ts';
+
+/**
+ * Retention periods accepted by CloudWatch Logs, in days
+ */
+const RETENTION_DAYS = [
+  1, 3, 5, 7, 14, 30, 60, 90, 120, 150, 180, 365, 400, 545, 731, 1096, 1827,
+  2192, 2557, 2922, 3288, 3653,
+];
+
+const RegionSchema = z
+  .string()
+  .regex(/^[a-z]{2}(-[a-z]+)+-\d$/, 'Must be an AWS region, e.g. eu-west-1');
+
+const ScheduleExpressionSchema = z
+  .string()
+  .regex(
+    /^(rate|cron)\(.+\)$/,
+    'Must be a rate() or cron() schedule expression'
+  );
+
+const OrganizationConfigSchema = z.object({
+  /** Id of the organization (e.g., "o-a1b2c3d4e5") */
+  id: z
+    .string()
+    .regex(
+      /^o-[a-z0-9]{10,32}$/,
+      'Must be an organization id, e.g. o-a1b2c3d4e5'
+    ),
+  /** Account the app is deployed to */
+  hubAccountId: z.string().regex(/^\d{12}$/, 'Must be a 12-digit account id'),
+  /** Region the app is deployed to */
+  hubRegion: RegionSchema,
+});
+
+const RulesSourceSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('ssm'),
+    /** Name of the SSM parameter holding the JSON array of rules */
+    parameterName: z
+      .string()
+      .regex(/^\/[\w./-]+$/, 'Must be an SSM parameter name starting with /'),
+  }),
+  z.object({
+    type: z.literal('appconfig'),
+    /** Ids of the AppConfig application, environment and configuration profile */
+    applicationId: z.string().min(1),
+    environmentId: z.string().min(1),
+    configurationProfileId: z.string().min(1),
+  }),
+]);
+
+const AppConfigSchema = z
+  .object({
+    /** Name prefix for all AWS resources */
+    appName: z
+      .string()
+      .regex(
+        /^[A-Za-z][A-Za-z0-9-]*$/,
+        'Must start with a letter and only contain letters, digits and hyphens'
+      )
+      .max(40)
+      .default('CWLogsGarbageGoober'),
+    /** Log group name prefixes to match (e.g., "/aws/lambda/MyApp-") */
+    logGroupPatterns: z
+      .array(z.string().min(1, 'An empty prefix would match all log groups'))
+      .default([]),
+    /**
+     * Glob (`*`, `?`) or `regex:`-prefixed patterns matching the whole log group
+     * name, in addition to `logGroupPatterns` (e.g., "/aws/lambda/Logger-*")
+     */
+    includePatterns: z.array(z.string().min(1)).default([]),
+    /** Glob or `regex:`-prefixed patterns of log group names to never delete (e.g., "*-Canary-*") */
+    excludePatterns: z.array(z.string().min(1)).default([]),
+    /**
+     * Conditions on the tags of the log group creation event, a value, a list
+     * of values or `{ "prefix": "..." }`, or `{ "exists": true }` for any value
+     */
+    requiredTags: TagConditionsSchema.default({}),
+    /** Groups of tag conditions, the log group must also satisfy one of them when set */
+    anyOfTags: z.array(TagConditionsSchema).default([]),
+    /**
+     * Glob or `regex:`-prefixed patterns of log group names that match without
+     * any tag, in addition to `logGroupPatterns` and `includePatterns`
+     */
+    untaggedPatterns: z.array(z.string().min(1)).default([]),
+    /** Days to wait after retention period before deleting */
+    deletionDelayDays: z.number().int().nonnegative().default(1),
+    /**
+     * Ordered cleanup rules, the first rule matching a log group applies. When
+     * empty, a single `default` rule is built from `logGroupPatterns`,
+     * `includePatterns`, `excludePatterns`, `requiredTags`, `anyOfTags`,
+     * `untaggedPatterns` and `deletionDelayDays`
+     */
+    rules: z.array(CleanupRuleSchema).default([]),
+    /**
+     * SSM parameter or AppConfig profile holding the rules as a JSON array,
+     * reloaded by the Lambdas without a redeploy. The deployed rules are used
+     * until they're loaded, and whenever they're invalid
+     */
+    rulesSource: RulesSourceSchema.optional(),
+    /** Seconds the Lambdas cache the rules of the `rulesSource` */
+    rulesMaxAgeSeconds: z.number().int().positive().default(300),
+    /**
+     * How to handle log groups with no retention policy ("Never expire"):
+     * - `applyDefaultRetention`: set `neverExpireDefaultRetentionInDays` as retention, then schedule the deletion
+     * - `delay`: schedule the deletion `neverExpireDelayDays` after creation
+     * - `skip`: don't schedule the deletion and send a notification instead
+     */
+    neverExpirePolicy: z
+      .enum(['applyDefaultRetention', 'delay', 'skip'])
+      .default('delay'),
+    /** Retention applied to never-expiring log groups with the `applyDefaultRetention` policy */
+    neverExpireDefaultRetentionInDays: z
+      .number()
+      .refine((days) => RETENTION_DAYS.includes(days), {
+        error: `Must be a retention supported by CloudWatch Logs: ${RETENTION_DAYS.join(', ')}`,
+      })
+      .default(7),
+    /** Days after creation to delete never-expiring log groups with the `delay` policy, defaults to `deletionDelayDays` */
+    neverExpireDelayDays: z.number().int().nonnegative().optional(),
+    /** Days to keep the log data exported by `archive` rules in the archive bucket */
+    archiveRetentionDays: z.number().int().positive().default(365),
+    /**
+     * Hours without new log events before a log group can be deleted, the
+     * deletion is postponed while events keep arriving (0 to disable)
+     */
+    quietPeriodHours: z.number().nonnegative().default(24),
+    /** How many times the deletion of an active log group can be postponed before it's deleted anyway */
+    maxPostponements: z.number().int().nonnegative().default(7),
+    /**
+     * Tag protecting a log group from deletion, as `key=value` or just `key` to
+     * match any value (e.g., "goober:keep=true")
+     */
+    protectionTag: z.string().min(1).default('goober:keep=true'),
+    /** Tag key holding a date or timestamp until which a log group is kept (e.g., "goober:keep-until") */
+    keepUntilTag: z.string().min(1).default('goober:keep-until'),
+    /** Regions whose log groups are cleaned up, defaults to the stack's region */
+    regions: z.array(RegionSchema).default([]),
+    /**
+     * Schedule expression to run the backfill sweep periodically
+     * (e.g., "cron(0 3 * * ? *)"), the sweep only runs on demand when unset
+     */
+    sweepSchedule: ScheduleExpressionSchema.optional(),
+    /**
+     * Schedule expression to reconcile deletion schedules with existing log
+     * groups periodically (e.g., "rate(1 day)"), only runs on demand when unset
+     */
+    reconcileSchedule: ScheduleExpressionSchema.optional(),
+    /**
+     * Where pending deletions are stored:
+     * - `scheduler`: one EventBridge Scheduler schedule per log group
+     * - `dynamodb`: one item per log group in a DynamoDB table, polled by a dispatcher Lambda
+     */
+    schedulingBackend: z.enum(['scheduler', 'dynamodb']).default('scheduler'),
+    /**
+     * Only log and measure what would be deleted, without deleting anything.
+     * Schedules created in this mode are marked so they never delete either
+     */
+    dryRun: z.boolean().default(false),
+    /** SSM parameter name containing the Slack workflow or incoming webhook URL */
+    slackWebhookParameter: z
+      .string()
+      .regex(/^\/[\w./-]+$/, 'Must be an SSM parameter name starting with /')
+      .default('/slack-cloudwatch-alerts-webhook-url'),
+    /**
+     * Format of the Slack messages:
+     * - `workflow`: variables of a Workflow Builder webhook, only for alarms entering the ALARM state
+     * - `blockKit`: Block Kit messages for an incoming webhook, with the reason, metric and threshold of the alarm, and a resolved message when it returns to OK
+     */
+    slackMessageFormat: z.enum(['workflow', 'blockKit']).default('workflow'),
+    /**
+     * Clean up the log groups of the member accounts of an organization too,
+     * each member account deploys the spoke stack forwarding its events
+     */
+    organization: OrganizationConfigSchema.optional(),
+  })
+  .superRefine((config, ctx) => {
+    if (
+      config.rules.length === 0 &&
+      config.logGroupPatterns.length === 0 &&
+      config.includePatterns.length === 0 &&
+      config.untaggedPatterns.length === 0
+    ) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['logGroupPatterns'],
+        message:
+          'Set logGroupPatterns, includePatterns or untaggedPatterns, or define rules, to select the log groups to clean up',
+      });
+    }
+    const ruleNames = config.rules.map(({ name }) => name);
+    for (const [index, name] of ruleNames.entries()) {
+      if (ruleNames.indexOf(name) !== index) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['rules', index, 'name'],
+          message: `Rule name ${name} is already used by another rule`,
+        });
+      }
+    }
+  })
+  .transform(({ neverExpireDelayDays, ...config }) => ({
+    ...config,
+    neverExpireDelayDays: neverExpireDelayDays ?? config.deletionDelayDays,
+  }));
+
+type OrganizationConfig = z.infer<typeof OrganizationConfigSchema>;
+type RulesSource = z.infer<typeof RulesSourceSchema>;
+type AppConfig = z.infer<typeof AppConfigSchema>;
+
+export type { AppConfig, OrganizationConfig, RulesSource };
+export { AppConfigSchema, OrganizationConfigSchema, RulesSourceSchema };
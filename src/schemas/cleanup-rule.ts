@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+const TagPrefixSchema = z.object({ prefix: z.string().min(1) });
+
+/**
+ * Condition on the value of a tag:
+ * - `"value"`: exactly this value
+ * - `["a", { "prefix": "b-" }]`: any of these values or prefixes
+ * - `{ "prefix": "b-" }`: a value starting with the prefix
+ * - `{ "exists": true }`: any value
+ */
+export const TagConditionSchema = z.union([
+  z.string(),
+  z.array(z.union([z.string(), TagPrefixSchema])).min(1),
+  TagPrefixSchema,
+  z.object({ exists: z.literal(true) }),
+]);
+
+/**
+ * Conditions on tag keys, a log group must satisfy all of them
+ */
+export const TagConditionsSchema = z.record(z.string(), TagConditionSchema);
+
+export const CleanupRuleSchema = z.object({
+  name: z.string().regex(/^[\w.-]+$/),
+  logGroupPatterns: z.array(z.string()).default([]),
+  includePatterns: z.array(z.string()).default([]),
+  excludePatterns: z.array(z.string()).default([]),
+  requiredTags: TagConditionsSchema.default({}),
+  anyOfTags: z.array(TagConditionsSchema).default([]),
+  untaggedPatterns: z.array(z.string()).default([]),
+  deletionDelayDays: z.number().int().nonnegative(),
+  action: z.enum(['delete', 'archive', 'ignore']).default('delete'),
+});
+
+export type TagCondition = z.infer<typeof TagConditionSchema>;
+export type TagConditions = z.infer<typeof TagConditionsSchema>;
+export type CleanupRule = z.infer<typeof CleanupRuleSchema>;
+export type CleanupRuleConfig = z.input<typeof CleanupRuleSchema>;
@@ -1,5 +1,23 @@
 import { z } from 'zod';
 
+const AlarmMetricSchema = z.object({
+  id: z.string(),
+  metricStat: z
+    .object({
+      metric: z.object({
+        namespace: z.string(),
+        name: z.string(),
+        dimensions: z.record(z.string(), z.string()).optional(),
+      }),
+      period: z.number(),
+      stat: z.string(),
+    })
+    .optional(),
+  expression: z.string().optional(),
+  label: z.string().optional(),
+  returnData: z.boolean().optional(),
+});
+
 export const CloudWatchAlarmEventSchema = z.object({
   source: z.literal('aws.cloudwatch'),
   alarmArn: z.string(),
@@ -12,6 +30,7 @@ export const CloudWatchAlarmEventSchema = z.object({
       value: z.enum(['ALARM', 'OK', 'INSUFFICIENT_DATA']),
       timestamp: z.string(),
       reason: z.string(),
+      reasonData: z.string().optional(),
     }),
     previousState: z
       .object({
@@ -23,9 +42,18 @@ export const CloudWatchAlarmEventSchema = z.object({
       .optional(),
     configuration: z.object({
       description: z.string(),
-      metrics: z.array(z.any()).optional(),
+      metrics: z.array(AlarmMetricSchema).optional(),
     }),
   }),
 });
 
+/**
+ * The JSON document of `reasonData`, only set for alarms on a single metric
+ */
+export const AlarmReasonDataSchema = z.object({
+  threshold: z.number().optional(),
+  recentDatapoints: z.array(z.number()).optional(),
+});
+
+export type AlarmMetric = z.infer<typeof AlarmMetricSchema>;
 export type CloudWatchAlarmEvent = z.infer<typeof CloudWatchAlarmEventSchema>;
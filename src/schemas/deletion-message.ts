@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+export const DeletionMessageSchema = z.object({
+  logGroupName: z.string(),
+  awsRegion: z.string(),
+  // Schedules created before cleanup rules were introduced carry no rule name
+  ruleName: z.string().optional(),
+  // Action of the rule when the deletion was scheduled, unset before it was carried
+  ruleAction: z.enum(['delete', 'archive']).optional(),
+  dryRun: z.boolean().optional(),
+  postponeCount: z.number().int().optional(),
+  // Id of the CloudTrail event that created the log group
+  correlationId: z.string().optional(),
+  // Member account of the log group, only set in multi-account mode
+  accountId: z.string().optional(),
+  // Set once the export of a log group archived before deletion has started
+  exportTaskId: z.string().optional(),
+});
+
+export type DeletionMessage = z.infer<typeof DeletionMessageSchema>;
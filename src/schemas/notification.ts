@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+export const NotificationEventSchema = z.object({
+  source: z.literal('cwlogs-garbage-goober'),
+  title: z.string(),
+  description: z.string(),
+  region: z.string(),
+  time: z.string(),
+  url: z.string(),
+});
+
+export type NotificationEvent = z.infer<typeof NotificationEventSchema>;
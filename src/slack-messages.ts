@@ -0,0 +1,319 @@
+import {
+  type AlarmMetric,
+  AlarmReasonDataSchema,
+  type CloudWatchAlarmEvent,
+} from './schemas/cloudwatch-alarm.ts';
+import type { NotificationEvent } from './schemas/notification.ts';
+
+type TextObject = { type: 'mrkdwn' | 'plain_text'; text: string };
+
+type SlackBlock =
+  | { type: 'header'; text: TextObject }
+  | { type: 'section'; text?: TextObject; fields?: TextObject[] }
+  | { type: 'context'; elements: TextObject[] }
+  | {
+      type: 'actions';
+      elements: { type: 'button'; text: TextObject; url: string }[];
+    };
+
+/**
+ * Block Kit message posted to a Slack incoming webhook, `text` is shown in
+ * notifications and by clients that can't render the blocks
+ */
+type SlackMessage = {
+  text: string;
+  blocks: SlackBlock[];
+};
+
+/**
+ * Maximum length of the text of a header block
+ */
+const MAX_HEADER_LENGTH = 150;
+
+/**
+ * Maximum length of the text of a section block
+ */
+const MAX_SECTION_LENGTH = 3000;
+
+const truncate = (text: string, maxLength: number) =>
+  text.length > maxLength ? `${text.substring(0, maxLength - 1)}…` : text;
+
+/**
+ * Escape the characters Slack interprets as control sequences in `mrkdwn` text
+ */
+const escapeMrkdwn = (text: string) =>
+  text.replaceAll('&', '&amp;').replaceAll('<', '&lt;').replaceAll('>', '&gt;');
+
+const mrkdwn = (text: string): TextObject => ({ type: 'mrkdwn', text });
+
+/**
+ * Format a timestamp with Slack's date formatting, shown in the time zone of
+ * the reader, falling back to the ISO timestamp
+ *
+ * @param isoTimestamp - The ISO 8601 timestamp
+ */
+const formatSlackDate = (isoTimestamp: string) =>
+  `<!date^${Math.floor(new Date(isoTimestamp).getTime() / 1000)}^{date_short_pretty} at {time}|${isoTimestamp}>`;
+
+/**
+ * Format the time elapsed between two timestamps, e.g. "2 h 5 min"
+ *
+ * @param from - The ISO 8601 timestamp the period starts at
+ * @param to - The ISO 8601 timestamp the period ends at
+ */
+const formatDuration = (from: string, to: string) => {
+  const minutes = Math.max(
+    1,
+    Math.round((new Date(to).getTime() - new Date(from).getTime()) / 60_000)
+  );
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ${minutes % 60} min`;
+
+  return `${Math.floor(hours / 24)} d ${hours % 24} h`;
+};
+
+/**
+ * Describe the metric an alarm evaluates, the first one returning data
+ *
+ * @param metrics - The metrics of the alarm configuration
+ */
+const describeMetric = (metrics: AlarmMetric[] = []) => {
+  const metric =
+    metrics.find(({ returnData }) => returnData !== false) ?? metrics[0];
+  if (metric?.metricStat) {
+    const {
+      metric: { namespace, name, dimensions = {} },
+      stat,
+      period,
+    } = metric.metricStat;
+    const dimensionList = Object.entries(dimensions)
+      .map(([key, value]) => `${key}=${value}`)
+      .join(', ');
+
+    return `${namespace} ${name}${dimensionList ? ` (${dimensionList})` : ''}, ${stat} over ${period} s`;
+  }
+  if (metric?.expression) {
+    return `${metric.label ?? metric.id}: ${metric.expression}`;
+  }
+
+  return undefined;
+};
+
+/**
+ * Get the threshold of an alarm from the `reasonData` of its state, only set
+ * for alarms on a single metric
+ *
+ * @param reasonData - The JSON document of the state's reason data
+ */
+const getThreshold = (reasonData?: string) => {
+  if (!reasonData) return undefined;
+  try {
+    return AlarmReasonDataSchema.parse(JSON.parse(reasonData)).threshold;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Build the fields describing the metric, threshold and region of an alarm
+ *
+ * @param alarm - The CloudWatch alarm event
+ */
+const buildAlarmFields = (alarm: CloudWatchAlarmEvent) => {
+  const { state, configuration } = alarm.alarmData;
+  const metric = describeMetric(configuration.metrics);
+  const threshold = getThreshold(state.reasonData);
+
+  return [
+    ...(metric ? [mrkdwn(`*Metric*\n${escapeMrkdwn(metric)}`)] : []),
+    ...(threshold !== undefined ? [mrkdwn(`*Threshold*\n${threshold}`)] : []),
+    mrkdwn(`*Region*\n${alarm.region}`),
+  ];
+};
+
+/**
+ * Build the button opening the alarm and the context line naming the app
+ */
+const buildFooterBlocks = ({
+  url,
+  label,
+  context,
+}: {
+  url: string;
+  label: string;
+  context: string;
+}): SlackBlock[] => [
+  {
+    type: 'actions',
+    elements: [
+      { type: 'button', text: { type: 'plain_text', text: label }, url },
+    ],
+  },
+  { type: 'context', elements: [mrkdwn(escapeMrkdwn(context))] },
+];
+
+/**
+ * Build the message of an alarm entering the ALARM state
+ *
+ * @param param - options object
+ * @param param.alarm - The CloudWatch alarm event
+ * @param param.alarmUrl - The CloudWatch console URL of the alarm
+ * @param param.appName - The name of the app
+ */
+const buildAlarmMessage = ({
+  alarm,
+  alarmUrl,
+  appName,
+}: {
+  alarm: CloudWatchAlarmEvent;
+  alarmUrl: string;
+  appName: string;
+}): SlackMessage => {
+  const { alarmName, state, configuration } = alarm.alarmData;
+
+  return {
+    text: `🚨 ${alarmName} is in ALARM: ${state.reason}`,
+    blocks: [
+      {
+        type: 'header',
+        text: {
+          type: 'plain_text',
+          text: truncate(`🚨 ${alarmName}`, MAX_HEADER_LENGTH),
+        },
+      },
+      ...(configuration.description
+        ? [
+            {
+              type: 'section' as const,
+              text: mrkdwn(escapeMrkdwn(configuration.description)),
+            },
+          ]
+        : []),
+      {
+        type: 'section',
+        text: mrkdwn(
+          truncate(
+            `*Reason*\n${escapeMrkdwn(state.reason)}`,
+            MAX_SECTION_LENGTH
+          )
+        ),
+      },
+      {
+        type: 'section',
+        fields: [
+          ...buildAlarmFields(alarm),
+          mrkdwn(`*Since*\n${formatSlackDate(state.timestamp)}`),
+        ],
+      },
+      ...buildFooterBlocks({
+        url: alarmUrl,
+        label: 'View alarm',
+        context: `${appName} · account ${alarm.accountId}`,
+      }),
+    ],
+  };
+};
+
+/**
+ * Build the message of an alarm returning to OK from the ALARM state, which
+ * links to the alarm the original alert was about
+ *
+ * @param param - options object
+ * @param param.alarm - The CloudWatch alarm event, with its previous state
+ * @param param.alarmUrl - The CloudWatch console URL of the alarm
+ * @param param.appName - The name of the app
+ */
+const buildResolvedMessage = ({
+  alarm,
+  alarmUrl,
+  appName,
+}: {
+  alarm: CloudWatchAlarmEvent;
+  alarmUrl: string;
+  appName: string;
+}): SlackMessage => {
+  const { alarmName, state, previousState } = alarm.alarmData;
+  const alertedAt = previousState?.timestamp ?? state.timestamp;
+
+  return {
+    text: `✅ Resolved: ${alarmName} is back to OK after ${formatDuration(alertedAt, state.timestamp)}`,
+    blocks: [
+      {
+        type: 'header',
+        text: {
+          type: 'plain_text',
+          text: truncate(`✅ Resolved: ${alarmName}`, MAX_HEADER_LENGTH),
+        },
+      },
+      {
+        type: 'section',
+        text: mrkdwn(
+          truncate(
+            `The <${alarmUrl}|alert> raised ${formatSlackDate(alertedAt)} is resolved after ${formatDuration(alertedAt, state.timestamp)}.\n*Reason*\n${escapeMrkdwn(state.reason)}`,
+            MAX_SECTION_LENGTH
+          )
+        ),
+      },
+      {
+        type: 'section',
+        fields: [
+          ...buildAlarmFields(alarm),
+          mrkdwn(`*Resolved*\n${formatSlackDate(state.timestamp)}`),
+        ],
+      },
+      ...buildFooterBlocks({
+        url: alarmUrl,
+        label: 'View alarm',
+        context: `${appName} · account ${alarm.accountId}`,
+      }),
+    ],
+  };
+};
+
+/**
+ * Build the message of a notification sent by the other functions of the app
+ *
+ * @param param - options object
+ * @param param.notification - The notification event
+ * @param param.appName - The name of the app
+ */
+const buildNotificationMessage = ({
+  notification,
+  appName,
+}: {
+  notification: NotificationEvent;
+  appName: string;
+}): SlackMessage => ({
+  text: `⚠️ ${notification.title}`,
+  blocks: [
+    {
+      type: 'header',
+      text: {
+        type: 'plain_text',
+        text: truncate(`⚠️ ${notification.title}`, MAX_HEADER_LENGTH),
+      },
+    },
+    {
+      type: 'section',
+      text: mrkdwn(
+        truncate(escapeMrkdwn(notification.description), MAX_SECTION_LENGTH)
+      ),
+    },
+    {
+      type: 'section',
+      fields: [
+        mrkdwn(`*Region*\n${notification.region}`),
+        mrkdwn(`*Time*\n${formatSlackDate(notification.time)}`),
+      ],
+    },
+    ...buildFooterBlocks({
+      url: notification.url,
+      label: 'Open in CloudWatch',
+      context: appName,
+    }),
+  ],
+});
+
+export type { SlackMessage };
+export { buildAlarmMessage, buildNotificationMessage, buildResolvedMessage };
@@ -1,12 +1,25 @@
 import { getParameter } from '@aws-lambda-powertools/parameters/ssm';
+import { getStringFromEnv } from '@aws-lambda-powertools/commons/utils/env';
 import { Logger } from '@aws-lambda-powertools/logger';
+import { Metrics, MetricUnit } from '@aws-lambda-powertools/metrics';
 import type { Context } from 'aws-lambda';
 import {
   CloudWatchAlarmEventSchema,
   type CloudWatchAlarmEvent,
-} from './schemas/cloudwatch-alarm.js';
+} from './schemas/cloudwatch-alarm.ts';
+import {
+  NotificationEventSchema,
+  type NotificationEvent,
+} from './schemas/notification.ts';
+import {
+  buildAlarmMessage,
+  buildNotificationMessage,
+  buildResolvedMessage,
+  type SlackMessage,
+} from './slack-messages.ts';
 
 const logger = new Logger({ serviceName: 'slack-workflow-notifier' });
+const metrics = new Metrics({ serviceName: 'slack-workflow-notifier' });
 
 interface SlackPayload {
   emoji: string;
@@ -18,16 +31,82 @@ interface SlackPayload {
   appName: string;
 }
 
+/**
+ * Whether to post Block Kit messages to an incoming webhook rather than the
+ * payload of a Workflow Builder webhook
+ */
+const useBlockKit = () => process.env.SLACK_MESSAGE_FORMAT === 'blockKit';
+
 export const handler = async (
-  event: CloudWatchAlarmEvent,
+  event: CloudWatchAlarmEvent | NotificationEvent,
   context: Context
 ): Promise<void> => {
   logger.addContext(context);
   logger.logEventIfEnabled(event);
 
+  try {
+    await processEvent(event);
+  } finally {
+    metrics.publishStoredMetrics();
+  }
+};
+
+async function processEvent(
+  event: CloudWatchAlarmEvent | NotificationEvent
+): Promise<void> {
+  // Notifications sent directly by the other functions of this app
+  if (event.source === 'cwlogs-garbage-goober') {
+    const notification = NotificationEventSchema.parse(event);
+    logger.info('Processing notification', { title: notification.title });
+
+    if (useBlockKit()) {
+      await sendWithRetry(
+        buildNotificationMessage({
+          notification,
+          appName: getStringFromEnv({ key: 'APP_NAME' }),
+        }),
+        await getWebhookUrl()
+      );
+      return;
+    }
+
+    await sendWithRetry(
+      {
+        emoji: '⚠️',
+        alarmName: notification.title,
+        alarmDescription: notification.description,
+        cloudWatchUrl: notification.url,
+        region: notification.region,
+        alarmTime: formatTimestamp(notification.time),
+        appName: getStringFromEnv({ key: 'APP_NAME' }),
+      },
+      await getWebhookUrl()
+    );
+    return;
+  }
+
   // Parse and validate the event
   const parsedEvent = CloudWatchAlarmEventSchema.parse(event);
 
+  // Block Kit messages also announce alarms returning to OK
+  const isResolved =
+    parsedEvent.alarmData.state.value === 'OK' &&
+    parsedEvent.alarmData.previousState?.value === 'ALARM';
+  if (useBlockKit() && isResolved) {
+    logger.info('Processing resolved CloudWatch alarm', {
+      alarmName: parsedEvent.alarmData.alarmName,
+    });
+    await sendWithRetry(
+      buildResolvedMessage({
+        alarm: parsedEvent,
+        alarmUrl: buildCloudWatchUrl(parsedEvent.alarmArn),
+        appName: getStringFromEnv({ key: 'APP_NAME' }),
+      }),
+      await getWebhookUrl()
+    );
+    return;
+  }
+
   // Only process ALARM state
   if (parsedEvent.alarmData.state.value !== 'ALARM') {
     logger.info('Skipping non-ALARM state', {
@@ -36,21 +115,25 @@ export const handler = async (
     return;
   }
 
-  // Fetch webhook URL (cached by Parameters utility)
-  const webhookUrl = await getParameter(process.env.SLACK_WEBHOOK_PARAM_NAME!, {
-    decrypt: true,
-    maxAge: 300,
-  });
-
-  if (!webhookUrl) {
-    throw new Error('Webhook URL not available');
-  }
+  const webhookUrl = await getWebhookUrl();
 
   logger.info('Processing CloudWatch alarm', {
     alarmName: parsedEvent.alarmData.alarmName,
     state: parsedEvent.alarmData.state.value,
   });
 
+  if (useBlockKit()) {
+    await sendWithRetry(
+      buildAlarmMessage({
+        alarm: parsedEvent,
+        alarmUrl: buildCloudWatchUrl(parsedEvent.alarmArn),
+        appName: getStringFromEnv({ key: 'APP_NAME' }),
+      }),
+      webhookUrl
+    );
+    return;
+  }
+
   const payload: SlackPayload = {
     emoji: '🚨',
     alarmName: parsedEvent.alarmData.alarmName,
@@ -58,11 +141,28 @@ export const handler = async (
     cloudWatchUrl: buildCloudWatchUrl(parsedEvent.alarmArn),
     region: parsedEvent.region,
     alarmTime: formatTimestamp(parsedEvent.alarmData.state.timestamp),
-    appName: process.env.APP_NAME!,
+    appName: getStringFromEnv({ key: 'APP_NAME' }),
   };
 
   await sendWithRetry(payload, webhookUrl);
-};
+}
+
+async function getWebhookUrl(): Promise<string> {
+  // Fetch webhook URL (cached by Parameters utility)
+  const webhookUrl = await getParameter(
+    getStringFromEnv({ key: 'SLACK_WEBHOOK_PARAM_NAME' }),
+    {
+      decrypt: true,
+      maxAge: 300,
+    }
+  );
+
+  if (!webhookUrl) {
+    throw new Error('Webhook URL not available');
+  }
+
+  return webhookUrl;
+}
 
 function buildCloudWatchUrl(alarmArn: string): string {
   const arnParts = alarmArn.split(':');
@@ -83,7 +183,7 @@ function formatTimestamp(isoTimestamp: string): string {
 }
 
 async function sendWithRetry(
-  payload: SlackPayload,
+  payload: SlackPayload | SlackMessage,
   url: string,
   maxRetries = 3
 ): Promise<void> {
@@ -100,6 +200,7 @@ async function sendWithRetry(
       }
 
       logger.info('Successfully sent to Slack', { attempt });
+      metrics.addMetric('NotificationsSent', MetricUnit.Count, 1);
       return;
     } catch (error) {
       if (attempt === maxRetries) {
@@ -107,6 +208,7 @@ async function sendWithRetry(
           error,
           totalAttempts: maxRetries,
         });
+        metrics.addMetric('NotificationsFailed', MetricUnit.Count, 1);
         throw error;
       }
 
@@ -1,12 +1,14 @@
 #!/usr/bin/env node
 import 'source-map-support/register.js';
-import { readFileSync } from 'node:fs';
+import { existsSync, readFileSync } from 'node:fs';
 import { TypeScriptCode } from '@mrgrain/cdk-esbuild';
 import {
   App,
   Arn,
   ArnFormat,
   Aspects,
+  BootstraplessSynthesizer,
+  CfnOutput,
   Duration,
   RemovalPolicy,
   Stack,
@@ -19,11 +21,28 @@ import {
   TreatMissingData,
 } from 'aws-cdk-lib/aws-cloudwatch';
 import { LambdaAction } from 'aws-cdk-lib/aws-cloudwatch-actions';
-import { Rule } from 'aws-cdk-lib/aws-events';
-import { SqsQueue } from 'aws-cdk-lib/aws-events-targets';
 import {
+  AttributeType,
+  BillingMode,
+  type CfnTable,
+  Table,
+} from 'aws-cdk-lib/aws-dynamodb';
+import {
+  EventBus,
+  type EventPattern,
+  Rule,
+  Schedule,
+} from 'aws-cdk-lib/aws-events';
+import {
+  EventBus as EventBusTarget,
+  LambdaFunction,
+  SqsQueue,
+} from 'aws-cdk-lib/aws-events-targets';
+import {
+  AccountPrincipal,
   AnyPrincipal,
   Effect,
+  OrganizationPrincipal,
   PolicyStatement,
   type PolicyStatementProps,
   Role,
@@ -31,62 +50,391 @@ import {
 } from 'aws-cdk-lib/aws-iam';
 import {
   type FunctionProps,
+  FunctionUrlAuthType,
   Function as LambdaFn,
   Runtime,
+  Tracing,
 } from 'aws-cdk-lib/aws-lambda';
 import { SqsEventSource } from 'aws-cdk-lib/aws-lambda-event-sources';
 import { LogGroup, RetentionDays } from 'aws-cdk-lib/aws-logs';
+import {
+  BlockPublicAccess,
+  Bucket,
+  BucketEncryption,
+  StorageClass,
+} from 'aws-cdk-lib/aws-s3';
+import { ScheduleGroup } from 'aws-cdk-lib/aws-scheduler';
 import type { IQueue } from 'aws-cdk-lib/aws-sqs';
 import { Queue } from 'aws-cdk-lib/aws-sqs';
 import { AwsSolutionsChecks, NagSuppressions } from 'cdk-nag';
 import type { Construct } from 'constructs';
-import type { AppConfig } from './types.js';
+import { z } from 'zod';
+import { getLiteralPrefix } from './matching.ts';
+import {
+  type AppConfig,
+  AppConfigSchema,
+  type OrganizationConfig,
+  type RulesSource,
+} from './schemas/app-config.ts';
+import {
+  type CleanupRule,
+  CleanupRuleSchema,
+  type TagConditions,
+} from './schemas/cleanup-rule.ts';
+import type { SchedulingBackendName } from './types.ts';
 
 const app = new App();
 Aspects.of(app).add(new AwsSolutionsChecks());
 
 /**
- * Load configuration from config.json with CDK context overrides
+ * Decode a CDK context value, values passed with `-c` are strings, so JSON
+ * arrays, objects, numbers and booleans are parsed while other strings are
+ * kept as they are
+ *
+ * @param value - the context value
+ */
+const parseContextValue = (value: unknown) => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Load the configuration of the environment selected with the `environment`
+ * context from `config.<environment>.json`, or `config.json` when no
+ * environment is selected, with CDK context overrides
+ *
+ * The configuration is validated and completed with defaults, so mistakes
+ * fail the synth with the path of each invalid option.
  */
 const loadConfig = (app: App): AppConfig => {
-  const fileConfig: AppConfig = JSON.parse(
-    readFileSync('./config.json', 'utf-8')
+  const environment: string | undefined =
+    app.node.tryGetContext('environment') || undefined;
+  const configFile = environment
+    ? `./config.${environment}.json`
+    : './config.json';
+  if (!existsSync(configFile)) {
+    throw new Error(
+      environment
+        ? `No configuration found for environment ${environment}, create ${configFile} from config.json.template`
+        : 'No configuration found, create ./config.json from config.json.template or select an environment with -c environment=<name>'
+    );
+  }
+  const fileConfig = JSON.parse(readFileSync(configFile, 'utf-8'));
+
+  const contextOverrides = Object.fromEntries(
+    Object.keys(AppConfigSchema.in.shape)
+      .map((key) => [key, parseContextValue(app.node.tryGetContext(key))])
+      .filter(([, value]) => value !== undefined)
+  );
+  const result = AppConfigSchema.safeParse({
+    ...fileConfig,
+    ...contextOverrides,
+  });
+  if (!result.success) {
+    throw new Error(
+      `Invalid configuration in ${configFile} or the CDK context:\n${z.prettifyError(result.error)}`
+    );
+  }
+
+  return result.data;
+};
+
+const config = loadConfig(app);
+
+/**
+ * Build the ordered cleanup rules from the configuration, without explicit
+ * rules the top-level patterns, tags and delay make up a single default rule
+ *
+ * @param config - the app configuration
+ */
+const buildCleanupRules = ({
+  rules,
+  logGroupPatterns,
+  includePatterns,
+  excludePatterns,
+  requiredTags,
+  anyOfTags,
+  untaggedPatterns,
+  deletionDelayDays,
+}: AppConfig) =>
+  z.array(CleanupRuleSchema).parse(
+    rules.length > 0
+      ? rules
+      : [
+          {
+            name: 'default',
+            logGroupPatterns,
+            includePatterns,
+            excludePatterns,
+            requiredTags,
+            anyOfTags,
+            untaggedPatterns,
+            deletionDelayDays,
+          },
+        ]
+  );
+
+/**
+ * Coarse pre-filter on name prefixes, the event handler evaluates the full
+ * include/exclude patterns
+ *
+ * @param options - options object
+ * @param options.prefixes - log group name prefixes
+ * @param options.patterns - glob or `regex:` patterns, only their literal prefix is used
+ */
+const buildLogGroupNameFilters = ({
+  prefixes,
+  patterns,
+}: {
+  prefixes: string[];
+  patterns: string[];
+}) => {
+  const namePrefixes = new Set([
+    ...prefixes,
+    ...patterns.map(getLiteralPrefix),
+  ]);
+
+  return namePrefixes.has('')
+    ? [{ exists: true }]
+    : [...namePrefixes].map((prefix) => ({ prefix }));
+};
+
+/**
+ * Build the EventBridge filters of the tags of the created log groups from
+ * tag conditions
+ *
+ * @param conditions - the conditions on the tag keys
+ */
+const buildTagFilters = (conditions: TagConditions) =>
+  Object.fromEntries(
+    Object.entries(conditions).map(([key, condition]) => [
+      key,
+      Array.isArray(condition) ? condition : [condition],
+    ])
   );
 
+/**
+ * Build the EventBridge filters of the `CreateLogGroup` events matched by a
+ * cleanup rule
+ *
+ * There is one filter per `anyOfTags` group, each also holding the
+ * `requiredTags`. EventBridge can't combine two conditions on the same tag,
+ * so `requiredTags` win in the filter and the event handler checks both.
+ *
+ * @param rule - the cleanup rule
+ */
+const buildCreationFilters = (rule: CleanupRule) => {
+  const tagGroups =
+    rule.anyOfTags.length > 0
+      ? rule.anyOfTags.map((group) => ({ ...group, ...rule.requiredTags }))
+      : [rule.requiredTags];
+  const logGroupName = buildLogGroupNameFilters({
+    prefixes: rule.logGroupPatterns,
+    patterns: rule.includePatterns,
+  });
+  const filters =
+    rule.logGroupPatterns.length > 0 || rule.includePatterns.length > 0
+      ? tagGroups.map((tags) => ({
+          eventName: ['CreateLogGroup'],
+          requestParameters: {
+            logGroupName,
+            ...(Object.keys(tags).length > 0 && {
+              tags: buildTagFilters(tags),
+            }),
+          },
+        }))
+      : [];
+  // Log groups matching the untagged patterns don't need any tag
+  if (rule.untaggedPatterns.length > 0) {
+    filters.push({
+      eventName: ['CreateLogGroup'],
+      requestParameters: {
+        logGroupName: buildLogGroupNameFilters({
+          prefixes: [],
+          patterns: rule.untaggedPatterns,
+        }),
+      },
+    });
+  }
+
+  return filters;
+};
+
+/**
+ * Build the EventBridge pattern of the CloudTrail events the event handler
+ * acts on from the cleanup rules
+ *
+ * Rules that ignore log groups only matter when evaluated in order by the
+ * event handler, so they don't contribute to the pattern.
+ *
+ * @param cleanupRules - the ordered cleanup rules
+ */
+const buildLogGroupEventPattern = (
+  cleanupRules: CleanupRule[]
+): EventPattern => {
+  const deleteRules = cleanupRules.filter(({ action }) => action !== 'ignore');
+
   return {
-    appName: app.node.tryGetContext('appName') ?? fileConfig.appName,
-    logGroupPatterns:
-      app.node.tryGetContext('logGroupPatterns') ?? fileConfig.logGroupPatterns,
-    requiredTags:
-      app.node.tryGetContext('requiredTags') ?? fileConfig.requiredTags,
-    deletionDelayDays:
-      app.node.tryGetContext('deletionDelayDays') ??
-      fileConfig.deletionDelayDays,
-    slackWebhookParameter:
-      app.node.tryGetContext('slackWebhookParameter') ??
-      fileConfig.slackWebhookParameter,
+    source: ['aws.logs'],
+    detailType: ['AWS API Call via CloudTrail'],
+    detail: {
+      eventSource: ['logs.amazonaws.com'],
+      $or: [
+        ...deleteRules.flatMap(buildCreationFilters),
+        // Retention changes and deletions carry no tags, the event handler
+        // only acts on them if the log group already has a deletion schedule
+        {
+          eventName: [
+            'PutRetentionPolicy',
+            'DeleteRetentionPolicy',
+            'DeleteLogGroup',
+          ],
+          requestParameters: {
+            logGroupName: buildLogGroupNameFilters({
+              prefixes: deleteRules.flatMap((rule) => rule.logGroupPatterns),
+              patterns: deleteRules.flatMap((rule) => [
+                ...rule.includePatterns,
+                ...rule.untaggedPatterns,
+              ]),
+            }),
+          },
+        },
+      ],
+    },
   };
 };
 
-const config = loadConfig(app);
+/**
+ * Build the EventBridge pattern of the CloudTrail events the event handler
+ * acts on from the configuration
+ *
+ * When the rules are loaded from a `rulesSource`, they can change without a
+ * redeploy, so the pattern matches the events of all log groups and the event
+ * handler filters them with the current rules.
+ *
+ * @param config - the app configuration
+ */
+const buildAppEventPattern = (config: AppConfig): EventPattern =>
+  config.rulesSource
+    ? {
+        source: ['aws.logs'],
+        detailType: ['AWS API Call via CloudTrail'],
+        detail: {
+          eventSource: ['logs.amazonaws.com'],
+          eventName: [
+            'CreateLogGroup',
+            'PutRetentionPolicy',
+            'DeleteRetentionPolicy',
+            'DeleteLogGroup',
+          ],
+        },
+      }
+    : buildLogGroupEventPattern(buildCleanupRules(config));
+
+/**
+ * Build the environment telling the functions where to load the cleanup rules
+ * from, empty when the rules are deployed with the stack
+ *
+ * @param options - options object
+ * @param options.rulesSource - the SSM parameter or AppConfig profile holding the rules
+ * @param options.rulesMaxAgeSeconds - seconds the functions cache the rules
+ */
+const buildRulesSourceEnvironment = ({
+  rulesSource,
+  rulesMaxAgeSeconds,
+}: Pick<AppConfig, 'rulesSource' | 'rulesMaxAgeSeconds'>): Record<
+  string,
+  string
+> => {
+  if (!rulesSource) return {};
+
+  return {
+    ...(rulesSource.type === 'ssm'
+      ? { RULES_PARAMETER_NAME: rulesSource.parameterName }
+      : {
+          RULES_APPCONFIG_APPLICATION: rulesSource.applicationId,
+          RULES_APPCONFIG_ENVIRONMENT: rulesSource.environmentId,
+          RULES_APPCONFIG_PROFILE: rulesSource.configurationProfileId,
+        }),
+    RULES_MAX_AGE_SECONDS: String(rulesMaxAgeSeconds),
+  };
+};
+
+/**
+ * Name of the event bus receiving the events of the other regions and of the
+ * member accounts
+ *
+ * @param appName - name prefix for all AWS resources
+ */
+const getCentralBusName = (appName: string) => `${appName}-bus`;
+
+/**
+ * Add a rule forwarding the log group events of the stack's account and region
+ * to the central bus of the app
+ *
+ * @param stack - the stack holding the rule
+ * @param options - options object
+ * @param options.config - the app configuration
+ * @param options.eventBusArn - ARN of the central bus of the app
+ */
+const addForwardingRule = (
+  stack: Stack,
+  { config, eventBusArn }: { config: AppConfig; eventBusArn: string }
+) =>
+  new Rule(stack, 'LogGroupForwardingRule', {
+    ruleName: `${config.appName}-ForwardRule`,
+    eventPattern: buildAppEventPattern(config),
+    targets: [
+      new EventBusTarget(
+        EventBus.fromEventBusArn(stack, 'central-event-bus', eventBusArn)
+      ),
+    ],
+  });
+
+/**
+ * Name of the role the handlers assume in the member accounts
+ *
+ * @param appName - name prefix for all AWS resources
+ */
+const getSpokeRoleName = (appName: string) => `${appName}-spoke-role`;
 
 class LogGroupCleanerStack extends Stack {
   public constructor(
     scope: Construct,
     id: string,
-    config: AppConfig,
+    config: AppConfig & { forwardedRegions: string[] },
     props?: StackProps
   ) {
     super(scope, id, props);
 
     const {
       appName,
-      logGroupPatterns,
-      requiredTags,
-      deletionDelayDays,
+      neverExpirePolicy,
+      neverExpireDefaultRetentionInDays,
+      neverExpireDelayDays,
+      archiveRetentionDays,
+      quietPeriodHours,
+      maxPostponements,
+      protectionTag,
+      keepUntilTag,
+      regions,
+      sweepSchedule,
+      reconcileSchedule,
+      schedulingBackend,
+      dryRun,
       slackWebhookParameter,
+      slackMessageFormat,
+      rulesSource,
+      organization,
+      forwardedRegions,
     } = config;
 
+    const cleanupRules = buildCleanupRules(config);
+
     const deletionDLQ = new Queue(this, 'deletion-dlq', {
       queueName: `${appName}-deletion-dlq`,
       retentionPeriod: Duration.days(14),
@@ -110,17 +458,26 @@ class LogGroupCleanerStack extends Stack {
       tlsActions: ['sqs:*'],
       denyActions: ['sqs:SendMessage'],
     });
-    const publishToQueueRole = new Role(this, 'publish-to-queue-role', {
-      roleName: `${appName}-publish-to-queue-role`,
-      assumedBy: new ServicePrincipal('scheduler.amazonaws.com', {
-        conditions: {
-          StringEquals: {
-            'aws:sourceAccount': this.account,
-          },
-        },
-      }),
+    const scheduling = this.#createSchedulingBackend({
+      appName,
+      schedulingBackend,
+      deletionQueue,
+    });
+
+    // Lifecycle ledger of the log groups, kept when the stack is deleted
+    const ledgerTable = new Table(this, 'ledger-table', {
+      tableName: `${appName}-log-group-ledger`,
+      partitionKey: { name: 'logGroupName', type: AttributeType.STRING },
+      sortKey: { name: 'awsRegion', type: AttributeType.STRING },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+      pointInTimeRecoverySpecification: { pointInTimeRecoveryEnabled: true },
+      removalPolicy: RemovalPolicy.RETAIN,
+    });
+    ledgerTable.addGlobalSecondaryIndex({
+      indexName: 'state-due',
+      partitionKey: { name: 'state', type: AttributeType.STRING },
+      sortKey: { name: 'dueAt', type: AttributeType.NUMBER },
     });
-    deletionQueue.grantSendMessages(publishToQueueRole);
 
     // Event processing queue for throttling protection
     const eventProcessingQueue = new Queue(this, 'event-processing-queue', {
@@ -136,6 +493,8 @@ class LogGroupCleanerStack extends Stack {
       resource: eventProcessingQueue,
       tlsActions: ['sqs:*'],
       denyActions: ['sqs:SendMessage'],
+      // Events of the member accounts can be delivered from the whole organization
+      organization,
     });
 
     // Allow EventBridge to send messages to the queue
@@ -149,6 +508,39 @@ class LogGroupCleanerStack extends Stack {
       })
     );
 
+    const rulesSourceEnvironment = buildRulesSourceEnvironment(config);
+
+    // Bucket receiving the log data of log groups matched by `archive` rules
+    const archiveBucket = cleanupRules.some(
+      ({ action }) => action === 'archive'
+    )
+      ? this.#createArchiveBucket(archiveRetentionDays)
+      : undefined;
+
+    // Shared by all functions that apply the cleanup rules and schedule deletions
+    const deletionPolicyEnvironment = {
+      ...scheduling.environment,
+      CLEANUP_RULES: JSON.stringify(cleanupRules),
+      ...rulesSourceEnvironment,
+      NEVER_EXPIRE_POLICY: neverExpirePolicy,
+      NEVER_EXPIRE_DEFAULT_RETENTION_DAYS: String(
+        neverExpireDefaultRetentionInDays
+      ),
+      NEVER_EXPIRE_DELAY_DAYS: String(neverExpireDelayDays),
+      DRY_RUN: String(dryRun),
+      // Without the bucket, log groups of `archive` rules are kept
+      ...(archiveBucket && { ARCHIVE_BUCKET_NAME: archiveBucket.bucketName }),
+    };
+
+    // In multi-account mode, the event and deletion handlers assume a role in
+    // the member account of each log group
+    const memberAccountEnvironment: Record<string, string> = organization
+      ? {
+          HUB_ACCOUNT_ID: this.account,
+          SPOKE_ROLE_NAME: getSpokeRoleName(appName),
+        }
+      : {};
+
     const fnName = `${appName}-event-handler`;
     const cwLogsEventHandler = this.#createTsLambda({
       id: 'event-handler-fn',
@@ -156,18 +548,20 @@ class LogGroupCleanerStack extends Stack {
       fnName,
       environment: {
         POWERTOOLS_SERVICE_NAME: appName,
-        SCHEDULER_ROLE_ARN: publishToQueueRole.roleArn,
-        DELETION_QUEUE_ARN: deletionQueue.queueArn,
-        DELETION_DELAY_DAYS: String(deletionDelayDays),
+        POWERTOOLS_METRICS_NAMESPACE: appName,
+        ...deletionPolicyEnvironment,
+        ...memberAccountEnvironment,
+        LEDGER_TABLE_NAME: ledgerTable.tableName,
         POWERTOOLS_LOGGER_LOG_EVENT: 'false',
         NODE_OPTIONS: '--enable-source-maps',
       },
       timeout: Duration.minutes(2),
       memorySize: 512,
+      tracing: Tracing.ACTIVE,
     });
     cwLogsEventHandler.addToRolePolicy(
       new PolicyStatement({
-        actions: ['logs:DescribeLogGroups'],
+        actions: ['logs:DescribeLogGroups', 'logs:PutRetentionPolicy'],
         resources: [
           Arn.format(
             {
@@ -199,35 +593,26 @@ class LogGroupCleanerStack extends Stack {
           {
             id: 'AwsSolutions-IAM5',
             reason:
-              'This function must be able to operate on arbitrary CloudWatch log groups and Scheduler schedules, which requires wildcard resources',
+              'This function must be able to operate on arbitrary CloudWatch log groups, which requires wildcard resources',
             appliesTo: [
               'Resource::arn:<AWS::Partition>:logs:*:<AWS::AccountId>:log-group:*',
-              'Resource::arn:<AWS::Partition>:scheduler:<AWS::Region>:<AWS::AccountId>:schedule/*',
             ],
           },
+          {
+            id: 'AwsSolutions-IAM5',
+            reason:
+              'X-Ray does not support resource-level permissions for sending traces',
+            appliesTo: ['Resource::*'],
+          },
         ],
         true
       );
     }
+    scheduling.grantAccess(cwLogsEventHandler, 'manage');
     cwLogsEventHandler.addToRolePolicy(
       new PolicyStatement({
-        actions: ['scheduler:CreateSchedule'],
-        resources: [
-          Arn.format(
-            {
-              service: 'scheduler',
-              resource: 'schedule',
-              resourceName: '*',
-            },
-            this
-          ),
-        ],
-      })
-    );
-    cwLogsEventHandler.addToRolePolicy(
-      new PolicyStatement({
-        actions: ['iam:PassRole'],
-        resources: [publishToQueueRole.roleArn],
+        actions: ['dynamodb:GetItem', 'dynamodb:UpdateItem'],
+        resources: [ledgerTable.tableArn],
       })
     );
 
@@ -240,32 +625,42 @@ class LogGroupCleanerStack extends Stack {
       })
     );
 
-    // Build EventBridge rule pattern from config
-    const tagFilters: Record<string, string[]> = {};
-    for (const [key, value] of Object.entries(requiredTags)) {
-      tagFilters[key] = [value];
-    }
-
+    const eventPattern = buildAppEventPattern(config);
     const rule = new Rule(this, 'LogGroupCreationRule', {
       ruleName: `${appName}-Rule`,
-      eventPattern: {
-        source: ['aws.logs'],
-        detailType: ['AWS API Call via CloudTrail'],
-        detail: {
-          eventSource: ['logs.amazonaws.com'],
-          eventName: ['CreateLogGroup'],
-          requestParameters: {
-            logGroupName: logGroupPatterns.map((pattern) => ({
-              prefix: pattern,
-            })),
-            tags: tagFilters,
-          },
-        },
-      },
+      eventPattern,
       targets: [new SqsQueue(eventProcessingQueue)],
       enabled: true,
     });
 
+    // The other regions, and in multi-account mode the member accounts of the
+    // organization, forward their events to a central bus
+    if (organization || forwardedRegions.length > 0) {
+      const centralBus = new EventBus(this, 'central-event-bus', {
+        eventBusName: getCentralBusName(appName),
+      });
+      if (organization) {
+        centralBus.addToResourcePolicy(
+          new PolicyStatement({
+            sid: 'AllowOrganizationPutEvents',
+            effect: Effect.ALLOW,
+            principals: [new OrganizationPrincipal(organization.id)],
+            actions: ['events:PutEvents'],
+            resources: [centralBus.eventBusArn],
+          })
+        );
+      }
+      new Rule(this, 'ForwardedLogGroupRule', {
+        ruleName: `${appName}-BusRule`,
+        eventBus: centralBus,
+        eventPattern,
+        targets: [new SqsQueue(eventProcessingQueue)],
+      });
+      new CfnOutput(this, 'CentralEventBusArn', {
+        value: centralBus.eventBusArn,
+      });
+    }
+
     const deletionHandlerFnName = `${appName}-deletion-handler`;
     const deletionHandler = this.#createTsLambda({
       id: 'deletion-handler-fn',
@@ -273,15 +668,34 @@ class LogGroupCleanerStack extends Stack {
       fnName: deletionHandlerFnName,
       environment: {
         POWERTOOLS_SERVICE_NAME: appName,
+        POWERTOOLS_METRICS_NAMESPACE: appName,
+        ...scheduling.environment,
+        PROTECTION_TAG: protectionTag,
+        KEEP_UNTIL_TAG: keepUntilTag,
+        DRY_RUN: String(dryRun),
+        QUIET_PERIOD_HOURS: String(quietPeriodHours),
+        MAX_POSTPONEMENTS: String(maxPostponements),
+        CLEANUP_RULES: JSON.stringify(cleanupRules),
+        ...rulesSourceEnvironment,
+        DELETION_QUEUE_URL: deletionQueue.queueUrl,
+        LEDGER_TABLE_NAME: ledgerTable.tableName,
+        ...memberAccountEnvironment,
+        ...(archiveBucket && { ARCHIVE_BUCKET_NAME: archiveBucket.bucketName }),
         POWERTOOLS_LOGGER_LOG_EVENT: 'false',
         NODE_OPTIONS: '--enable-source-maps',
       },
       timeout: Duration.seconds(30),
       memorySize: 512,
+      tracing: Tracing.ACTIVE,
     });
     deletionHandler.addToRolePolicy(
       new PolicyStatement({
-        actions: ['logs:DeleteLogGroup'],
+        actions: [
+          'logs:DescribeLogGroups',
+          'logs:DescribeLogStreams',
+          'logs:ListTagsForResource',
+          'logs:DeleteLogGroup',
+        ],
         resources: [
           Arn.format(
             {
@@ -297,6 +711,61 @@ class LogGroupCleanerStack extends Stack {
       })
     );
 
+    // Log groups kept by a keep-until tag, or still receiving events, get
+    // their schedule moved to a later date
+    scheduling.grantAccess(deletionHandler, 'schedule');
+    deletionHandler.addToRolePolicy(
+      new PolicyStatement({
+        actions: ['dynamodb:UpdateItem'],
+        resources: [ledgerTable.tableArn],
+      })
+    );
+
+    // Archived log groups are put back on the queue while their export runs
+    if (archiveBucket) {
+      deletionHandler.addToRolePolicy(
+        new PolicyStatement({
+          actions: ['logs:CreateExportTask'],
+          resources: [
+            Arn.format(
+              {
+                service: 'logs',
+                resource: 'log-group',
+                resourceName: '*',
+                arnFormat: ArnFormat.COLON_RESOURCE_NAME,
+              },
+              this
+            ),
+          ],
+        })
+      );
+      deletionHandler.addToRolePolicy(
+        new PolicyStatement({
+          // DescribeExportTasks does not support resource-level permissions
+          actions: ['logs:DescribeExportTasks'],
+          resources: ['*'],
+        })
+      );
+      deletionQueue.grantSendMessages(deletionHandler);
+      if (deletionHandler.role) {
+        NagSuppressions.addResourceSuppressions(
+          deletionHandler.role,
+          [
+            {
+              id: 'AwsSolutions-IAM5',
+              reason:
+                'This function exports arbitrary log groups of the stack region to the archive bucket, and export tasks can only be described with a wildcard resource',
+              appliesTo: [
+                'Resource::arn:<AWS::Partition>:logs:<AWS::Region>:<AWS::AccountId>:log-group:*',
+                'Resource::*',
+              ],
+            },
+          ],
+          true
+        );
+      }
+    }
+
     // Suppressions for cdk-nag on deletion handler role
     if (deletionHandler.role) {
       NagSuppressions.addResourceSuppressions(
@@ -318,6 +787,12 @@ class LogGroupCleanerStack extends Stack {
               'Resource::arn:<AWS::Partition>:logs:*:<AWS::AccountId>:log-group:*',
             ],
           },
+          {
+            id: 'AwsSolutions-IAM5',
+            reason:
+              'X-Ray does not support resource-level permissions for sending traces',
+            appliesTo: ['Resource::*'],
+          },
         ],
         true
       );
@@ -328,13 +803,264 @@ class LogGroupCleanerStack extends Stack {
       })
     );
 
+    if (organization) {
+      for (const fn of [cwLogsEventHandler, deletionHandler]) {
+        this.#grantAssumeSpokeRole({ fn, appName, organization });
+      }
+    }
+
+    // Backfill sweep for log groups that existed before the stack was deployed,
+    // can be invoked on demand and optionally runs on a schedule
+    const sweepHandlerFnName = `${appName}-sweep-handler`;
+    const sweepHandler = this.#createTsLambda({
+      id: 'sweep-handler-fn',
+      entry: './src/sweep-handler.ts',
+      fnName: sweepHandlerFnName,
+      environment: {
+        POWERTOOLS_SERVICE_NAME: appName,
+        ...deletionPolicyEnvironment,
+        DELETION_QUEUE_URL: deletionQueue.queueUrl,
+        LEDGER_TABLE_NAME: ledgerTable.tableName,
+        REGIONS: JSON.stringify(regions.length > 0 ? regions : [this.region]),
+        POWERTOOLS_LOGGER_LOG_EVENT: 'false',
+        NODE_OPTIONS: '--enable-source-maps',
+      },
+      timeout: Duration.minutes(15),
+      memorySize: 512,
+    });
+    sweepHandler.addToRolePolicy(
+      new PolicyStatement({
+        actions: [
+          'logs:DescribeLogGroups',
+          'logs:ListTagsForResource',
+          'logs:PutRetentionPolicy',
+        ],
+        resources: [
+          Arn.format(
+            {
+              region: '*',
+              service: 'logs',
+              resource: 'log-group',
+              resourceName: '*',
+              arnFormat: ArnFormat.COLON_RESOURCE_NAME,
+            },
+            this
+          ),
+        ],
+      })
+    );
+    // Existing schedules are read, so that the sweep doesn't overwrite them
+    scheduling.grantAccess(sweepHandler, 'manage');
+    // The function name is used instead of its ARN to avoid a circular
+    // dependency between the function and its own role policy
+    sweepHandler.addToRolePolicy(
+      new PolicyStatement({
+        actions: ['lambda:InvokeFunction'],
+        resources: [
+          Arn.format(
+            {
+              service: 'lambda',
+              resource: 'function',
+              resourceName: sweepHandlerFnName,
+              arnFormat: ArnFormat.COLON_RESOURCE_NAME,
+            },
+            this
+          ),
+        ],
+      })
+    );
+    deletionQueue.grantSendMessages(sweepHandler);
+    // Deletions cancelled by an operator or skipped in dry-run mode are held
+    // in the ledger
+    sweepHandler.addToRolePolicy(
+      new PolicyStatement({
+        actions: ['dynamodb:GetItem'],
+        resources: [ledgerTable.tableArn],
+      })
+    );
+
+    if (sweepHandler.role) {
+      NagSuppressions.addResourceSuppressions(
+        sweepHandler.role,
+        [
+          {
+            id: 'AwsSolutions-IAM4',
+            reason:
+              'Default AWS managed policy AWSLambdaBasicExecutionRole is acceptable for lambda execution role',
+            appliesTo: [
+              'Policy::arn:<AWS::Partition>:iam::aws:policy/service-role/AWSLambdaBasicExecutionRole',
+            ],
+          },
+          {
+            id: 'AwsSolutions-IAM5',
+            reason:
+              'This function must be able to sweep arbitrary CloudWatch log groups, which requires wildcard resources',
+            appliesTo: [
+              'Resource::arn:<AWS::Partition>:logs:*:<AWS::AccountId>:log-group:*',
+            ],
+          },
+        ],
+        true
+      );
+    }
+
+    if (sweepSchedule) {
+      new Rule(this, 'SweepScheduleRule', {
+        ruleName: `${appName}-SweepRule`,
+        schedule: Schedule.expression(sweepSchedule),
+        targets: [new LambdaFunction(sweepHandler)],
+      });
+    }
+
+    // Reconciler deleting orphaned schedules and handling log groups that
+    // never got one, can be invoked on demand and optionally runs on a schedule
+    const reconcileHandler = this.#createTsLambda({
+      id: 'reconcile-handler-fn',
+      entry: './src/reconcile-handler.ts',
+      fnName: `${appName}-reconcile-handler`,
+      environment: {
+        POWERTOOLS_SERVICE_NAME: appName,
+        ...deletionPolicyEnvironment,
+        DELETION_QUEUE_URL: deletionQueue.queueUrl,
+        LEDGER_TABLE_NAME: ledgerTable.tableName,
+        REGIONS: JSON.stringify(regions.length > 0 ? regions : [this.region]),
+        PROTECTION_TAG: protectionTag,
+        KEEP_UNTIL_TAG: keepUntilTag,
+        POWERTOOLS_LOGGER_LOG_EVENT: 'false',
+        NODE_OPTIONS: '--enable-source-maps',
+      },
+      timeout: Duration.minutes(15),
+      memorySize: 512,
+    });
+    reconcileHandler.addToRolePolicy(
+      new PolicyStatement({
+        actions: [
+          'logs:DescribeLogGroups',
+          'logs:ListTagsForResource',
+          'logs:PutRetentionPolicy',
+        ],
+        resources: [
+          Arn.format(
+            {
+              region: '*',
+              service: 'logs',
+              resource: 'log-group',
+              resourceName: '*',
+              arnFormat: ArnFormat.COLON_RESOURCE_NAME,
+            },
+            this
+          ),
+        ],
+      })
+    );
+    scheduling.grantAccess(reconcileHandler, 'manage');
+    deletionQueue.grantSendMessages(reconcileHandler);
+    reconcileHandler.addToRolePolicy(
+      new PolicyStatement({
+        actions: ['dynamodb:GetItem'],
+        resources: [ledgerTable.tableArn],
+      })
+    );
+
+    if (reconcileHandler.role) {
+      NagSuppressions.addResourceSuppressions(
+        reconcileHandler.role,
+        [
+          {
+            id: 'AwsSolutions-IAM4',
+            reason:
+              'Default AWS managed policy AWSLambdaBasicExecutionRole is acceptable for lambda execution role',
+            appliesTo: [
+              'Policy::arn:<AWS::Partition>:iam::aws:policy/service-role/AWSLambdaBasicExecutionRole',
+            ],
+          },
+          {
+            id: 'AwsSolutions-IAM5',
+            reason:
+              'This function must be able to check arbitrary CloudWatch log groups against the deletion schedules, which requires wildcard resources',
+            appliesTo: [
+              'Resource::arn:<AWS::Partition>:logs:*:<AWS::AccountId>:log-group:*',
+            ],
+          },
+        ],
+        true
+      );
+    }
+
+    if (reconcileSchedule) {
+      new Rule(this, 'ReconcileScheduleRule', {
+        ruleName: `${appName}-ReconcileRule`,
+        schedule: Schedule.expression(reconcileSchedule),
+        targets: [new LambdaFunction(reconcileHandler)],
+      });
+    }
+
+    if (rulesSource) {
+      for (const fn of [
+        cwLogsEventHandler,
+        deletionHandler,
+        sweepHandler,
+        reconcileHandler,
+      ]) {
+        this.#grantReadRules({ fn, rulesSource });
+      }
+    }
+
+    // Admin API managing the pending deletions, only callable by principals
+    // allowed to invoke its Function URL
+    const adminHandler = this.#createTsLambda({
+      id: 'admin-handler-fn',
+      entry: './src/admin-handler.ts',
+      fnName: `${appName}-admin-handler`,
+      environment: {
+        POWERTOOLS_SERVICE_NAME: appName,
+        ...scheduling.environment,
+        DELETION_QUEUE_URL: deletionQueue.queueUrl,
+        LEDGER_TABLE_NAME: ledgerTable.tableName,
+        NODE_OPTIONS: '--enable-source-maps',
+      },
+      timeout: Duration.minutes(1),
+      memorySize: 512,
+    });
+    scheduling.grantAccess(adminHandler, 'manage');
+    deletionQueue.grantSendMessages(adminHandler);
+    adminHandler.addToRolePolicy(
+      new PolicyStatement({
+        actions: ['dynamodb:UpdateItem'],
+        resources: [ledgerTable.tableArn],
+      })
+    );
+    const adminApi = adminHandler.addFunctionUrl({
+      authType: FunctionUrlAuthType.AWS_IAM,
+    });
+    new CfnOutput(this, 'AdminApiUrl', { value: adminApi.url });
+
+    if (adminHandler.role) {
+      NagSuppressions.addResourceSuppressions(
+        adminHandler.role,
+        [
+          {
+            id: 'AwsSolutions-IAM4',
+            reason:
+              'Default AWS managed policy AWSLambdaBasicExecutionRole is acceptable for lambda execution role',
+            appliesTo: [
+              'Policy::arn:<AWS::Partition>:iam::aws:policy/service-role/AWSLambdaBasicExecutionRole',
+            ],
+          },
+        ],
+        true
+      );
+    }
+
     // Alerting via Slack Workflow Builder
     const slackNotifier = this.#createTsLambda({
       id: 'slack-workflow-notifier',
       entry: './src/slack-workflow-notifier.ts',
       fnName: `${appName}-slack-workflow-notifier`,
       environment: {
+        POWERTOOLS_METRICS_NAMESPACE: appName,
         SLACK_WEBHOOK_PARAM_NAME: slackWebhookParameter,
+        SLACK_MESSAGE_FORMAT: slackMessageFormat,
         APP_NAME: appName,
       },
       timeout: Duration.seconds(30),
@@ -355,6 +1081,26 @@ class LogGroupCleanerStack extends Stack {
     // Grant CloudWatch permission to invoke Lambda
     slackNotifier.grantInvoke(new ServicePrincipal('cloudwatch.amazonaws.com'));
 
+    // Allow the event handler and reconciler to send notifications directly
+    for (const fn of [cwLogsEventHandler, reconcileHandler]) {
+      slackNotifier.grantInvoke(fn);
+      fn.addEnvironment('NOTIFIER_FUNCTION_NAME', slackNotifier.functionName);
+      if (fn.role) {
+        NagSuppressions.addResourceSuppressions(
+          fn.role,
+          [
+            {
+              id: 'AwsSolutions-IAM5',
+              reason:
+                'Invoke permissions granted by CDK include all versions and aliases of the notifier function',
+              appliesTo: ['Resource::<slackworkflownotifierEF4F7493.Arn>:*'],
+            },
+          ],
+          true
+        );
+      }
+    }
+
     // Suppress CDK-nag warning for AWS managed policy usage
     if (slackNotifier.role) {
       NagSuppressions.addResourceSuppressions(slackNotifier.role, [
@@ -468,6 +1214,40 @@ class LogGroupCleanerStack extends Stack {
       treatMissingData: TreatMissingData.NOT_BREACHING,
     });
     messageAgeAlarm.addAlarmAction(alarmAction);
+
+    // No schedules alarm - log groups are created all the time, so a day
+    // without any new schedule means events are no longer reaching the app
+    const noSchedulesAlarm = new Alarm(this, 'no-schedules-alarm', {
+      alarmName: `${appName}-NoSchedulesCreated`,
+      alarmDescription:
+        'No log group deletion was scheduled in the last 24 hours, check that CloudTrail events still reach the event handler',
+      metric: new Metric({
+        namespace: appName,
+        metricName: 'LogGroupsScheduled',
+        dimensionsMap: { service: appName },
+        period: Duration.days(1),
+        statistic: 'Sum',
+      }),
+      threshold: 1,
+      evaluationPeriods: 1,
+      comparisonOperator: ComparisonOperator.LESS_THAN_THRESHOLD,
+      treatMissingData: TreatMissingData.BREACHING,
+    });
+    noSchedulesAlarm.addAlarmAction(alarmAction);
+
+    // Block Kit messages also announce when the alarms are resolved
+    if (slackMessageFormat === 'blockKit') {
+      for (const alarm of [
+        dlqAlarm,
+        eventHandlerErrorAlarm,
+        deletionHandlerErrorAlarm,
+        queueDepthAlarm,
+        messageAgeAlarm,
+        noSchedulesAlarm,
+      ]) {
+        alarm.addOkAction(alarmAction);
+      }
+    }
   }
 
   /**
@@ -524,24 +1304,388 @@ class LogGroupCleanerStack extends Stack {
     });
   }
 
+  /**
+   * Create the resources storing the pending deletions for the selected
+   * scheduling backend
+   *
+   * - `scheduler`: a schedule group plus the role its schedules use to send
+   *   the log groups to the deletion queue
+   * - `dynamodb`: a table of pending deletions plus a dispatcher function
+   *   sending the due ones to the deletion queue every few minutes
+   *
+   * @param options - options object
+   * @param options.appName - name prefix for all AWS resources
+   * @param options.schedulingBackend - the selected scheduling backend
+   * @param options.deletionQueue - queue consumed by the deletion handler
+   */
+  #createSchedulingBackend({
+    appName,
+    schedulingBackend,
+    deletionQueue,
+  }: {
+    appName: string;
+    schedulingBackend: SchedulingBackendName;
+    deletionQueue: Queue;
+  }): {
+    /** Environment variables the functions need to use the backend */
+    environment: Record<string, string>;
+    /**
+     * Grant a function access to the deletion schedules, `schedule` only
+     * allows creating and updating them while `manage` also allows reading,
+     * listing and deleting them
+     */
+    grantAccess: (fn: LambdaFn, access: 'schedule' | 'manage') => void;
+  } {
+    if (schedulingBackend === 'dynamodb') {
+      const scheduleTable = new Table(this, 'deletion-schedule-table', {
+        tableName: `${appName}-deletion-schedules`,
+        partitionKey: { name: 'pk', type: AttributeType.STRING },
+        sortKey: { name: 'scheduleName', type: AttributeType.STRING },
+        billingMode: BillingMode.PAY_PER_REQUEST,
+        pointInTimeRecoverySpecification: { pointInTimeRecoveryEnabled: true },
+        removalPolicy: RemovalPolicy.DESTROY,
+      });
+      scheduleTable.addGlobalSecondaryIndex({
+        indexName: 'due',
+        partitionKey: { name: 'status', type: AttributeType.STRING },
+        sortKey: { name: 'dueAt', type: AttributeType.NUMBER },
+      });
+      const tableIndexesResource = `Resource::<${this.getLogicalId(scheduleTable.node.defaultChild as CfnTable)}.Arn>/index/*`;
+
+      const dispatchHandler = this.#createTsLambda({
+        id: 'dispatch-handler-fn',
+        entry: './src/dispatch-handler.ts',
+        fnName: `${appName}-dispatch-handler`,
+        environment: {
+          POWERTOOLS_SERVICE_NAME: appName,
+          SCHEDULE_TABLE_NAME: scheduleTable.tableName,
+          SCHEDULE_TABLE_DUE_INDEX_NAME: 'due',
+          DELETION_QUEUE_URL: deletionQueue.queueUrl,
+          POWERTOOLS_LOGGER_LOG_EVENT: 'false',
+          NODE_OPTIONS: '--enable-source-maps',
+        },
+        timeout: Duration.minutes(5),
+        memorySize: 512,
+      });
+      scheduleTable.grantReadWriteData(dispatchHandler);
+      deletionQueue.grantSendMessages(dispatchHandler);
+      if (dispatchHandler.role) {
+        NagSuppressions.addResourceSuppressions(
+          dispatchHandler.role,
+          [
+            {
+              id: 'AwsSolutions-IAM4',
+              reason:
+                'Default AWS managed policy AWSLambdaBasicExecutionRole is acceptable for lambda execution role',
+              appliesTo: [
+                'Policy::arn:<AWS::Partition>:iam::aws:policy/service-role/AWSLambdaBasicExecutionRole',
+              ],
+            },
+            {
+              id: 'AwsSolutions-IAM5',
+              reason:
+                'Data access granted by CDK includes the indexes of the schedule table',
+              appliesTo: [tableIndexesResource],
+            },
+          ],
+          true
+        );
+      }
+      new Rule(this, 'DispatchScheduleRule', {
+        ruleName: `${appName}-DispatchRule`,
+        schedule: Schedule.rate(Duration.minutes(5)),
+        targets: [new LambdaFunction(dispatchHandler)],
+      });
+
+      return {
+        environment: {
+          SCHEDULING_BACKEND: schedulingBackend,
+          SCHEDULE_TABLE_NAME: scheduleTable.tableName,
+        },
+        grantAccess: (fn, access) => {
+          if (access === 'manage') {
+            scheduleTable.grantReadWriteData(fn);
+          } else {
+            scheduleTable.grantWriteData(fn);
+          }
+          if (fn.role) {
+            NagSuppressions.addResourceSuppressions(
+              fn.role,
+              [
+                {
+                  id: 'AwsSolutions-IAM5',
+                  reason:
+                    'Data access granted by CDK includes the indexes of the schedule table',
+                  appliesTo: [tableIndexesResource],
+                },
+              ],
+              true
+            );
+          }
+        },
+      };
+    }
+
+    // Dedicated group for the deletion schedules, deleting the group with the
+    // stack also deletes all of its schedules
+    const scheduleGroupName = `${appName}-deletions`;
+    new ScheduleGroup(this, 'deletion-schedule-group', {
+      scheduleGroupName,
+      removalPolicy: RemovalPolicy.DESTROY,
+    });
+    const scheduleGroupSchedulesArn = Arn.format(
+      {
+        service: 'scheduler',
+        resource: 'schedule',
+        resourceName: `${scheduleGroupName}/*`,
+      },
+      this
+    );
+
+    const publishToQueueRole = new Role(this, 'publish-to-queue-role', {
+      roleName: `${appName}-publish-to-queue-role`,
+      assumedBy: new ServicePrincipal('scheduler.amazonaws.com', {
+        conditions: {
+          StringEquals: {
+            'aws:sourceAccount': this.account,
+          },
+        },
+      }),
+    });
+    deletionQueue.grantSendMessages(publishToQueueRole);
+
+    return {
+      environment: {
+        SCHEDULING_BACKEND: schedulingBackend,
+        SCHEDULE_GROUP_NAME: scheduleGroupName,
+        SCHEDULER_ROLE_ARN: publishToQueueRole.roleArn,
+        DELETION_QUEUE_ARN: deletionQueue.queueArn,
+      },
+      grantAccess: (fn, access) => {
+        fn.addToRolePolicy(
+          new PolicyStatement({
+            actions: [
+              'scheduler:CreateSchedule',
+              'scheduler:UpdateSchedule',
+              ...(access === 'manage'
+                ? ['scheduler:GetSchedule', 'scheduler:DeleteSchedule']
+                : []),
+            ],
+            resources: [scheduleGroupSchedulesArn],
+          })
+        );
+        if (access === 'manage') {
+          fn.addToRolePolicy(
+            new PolicyStatement({
+              // ListSchedules does not support resource-level permissions
+              actions: ['scheduler:ListSchedules'],
+              resources: ['*'],
+            })
+          );
+        }
+        fn.addToRolePolicy(
+          new PolicyStatement({
+            actions: ['iam:PassRole'],
+            resources: [publishToQueueRole.roleArn],
+          })
+        );
+        if (fn.role) {
+          NagSuppressions.addResourceSuppressions(
+            fn.role,
+            [
+              {
+                id: 'AwsSolutions-IAM5',
+                reason:
+                  'Deletion schedules are created per log group, so access is granted to all schedules of the group',
+                appliesTo: [
+                  `Resource::arn:<AWS::Partition>:scheduler:<AWS::Region>:<AWS::AccountId>:schedule/${scheduleGroupName}/*`,
+                  ...(access === 'manage' ? ['Resource::*'] : []),
+                ],
+              },
+            ],
+            true
+          );
+        }
+      },
+    };
+  }
+
+  /**
+   * Create the bucket receiving the log data exported before deletion, which
+   * CloudWatch Logs writes to on behalf of the deletion handler
+   *
+   * The bucket is retained when the stack is deleted, since it holds the
+   * archived log data.
+   *
+   * @param archiveRetentionDays - days to keep the archived log data
+   */
+  #createArchiveBucket(archiveRetentionDays: number) {
+    const archiveBucket = new Bucket(this, 'archive-bucket', {
+      encryption: BucketEncryption.S3_MANAGED,
+      blockPublicAccess: BlockPublicAccess.BLOCK_ALL,
+      enforceSSL: true,
+      lifecycleRules: [
+        {
+          expiration: Duration.days(archiveRetentionDays),
+          // Objects can only move to Infrequent Access after 30 days
+          transitions:
+            archiveRetentionDays > 30
+              ? [
+                  {
+                    storageClass: StorageClass.INFREQUENT_ACCESS,
+                    transitionAfter: Duration.days(30),
+                  },
+                ]
+              : undefined,
+        },
+      ],
+    });
+
+    const logsPrincipal = new ServicePrincipal(
+      `logs.${this.region}.amazonaws.com`
+    );
+    archiveBucket.addToResourcePolicy(
+      new PolicyStatement({
+        sid: 'AllowLogsExportAclCheck',
+        principals: [logsPrincipal],
+        actions: ['s3:GetBucketAcl'],
+        resources: [archiveBucket.bucketArn],
+        conditions: {
+          StringEquals: { 'aws:SourceAccount': this.account },
+        },
+      })
+    );
+    archiveBucket.addToResourcePolicy(
+      new PolicyStatement({
+        sid: 'AllowLogsExport',
+        principals: [logsPrincipal],
+        actions: ['s3:PutObject'],
+        resources: [archiveBucket.arnForObjects('*')],
+        conditions: {
+          StringEquals: {
+            's3:x-amz-acl': 'bucket-owner-full-control',
+            'aws:SourceAccount': this.account,
+          },
+        },
+      })
+    );
+    NagSuppressions.addResourceSuppressions(archiveBucket, [
+      {
+        id: 'AwsSolutions-S1',
+        reason:
+          'Objects are only written by CloudWatch Logs export tasks, which are already recorded by CloudTrail',
+      },
+    ]);
+
+    return archiveBucket;
+  }
+
+  /**
+   * Allow a function to assume the role of the app in the member accounts of
+   * the organization, to operate on their log groups
+   *
+   * @param options - options object
+   * @param options.fn - the function assuming the role
+   * @param options.appName - name prefix for all AWS resources
+   * @param options.organization - the organization of the member accounts
+   */
+  #grantAssumeSpokeRole({
+    fn,
+    appName,
+    organization,
+  }: {
+    fn: LambdaFn;
+    appName: string;
+    organization: OrganizationConfig;
+  }) {
+    fn.addToRolePolicy(
+      new PolicyStatement({
+        actions: ['sts:AssumeRole'],
+        resources: [`arn:aws:iam::*:role/${getSpokeRoleName(appName)}`],
+        conditions: {
+          StringEquals: { 'aws:ResourceOrgID': organization.id },
+        },
+      })
+    );
+    if (fn.role) {
+      NagSuppressions.addResourceSuppressions(
+        fn.role,
+        [
+          {
+            id: 'AwsSolutions-IAM5',
+            reason:
+              'The role of the app is assumed in any member account of the organization, restricted by the aws:ResourceOrgID condition',
+            appliesTo: [
+              `Resource::arn:aws:iam::*:role/${getSpokeRoleName(appName)}`,
+            ],
+          },
+        ],
+        true
+      );
+    }
+  }
+
+  /**
+   * Allow a function to read the cleanup rules from the SSM parameter or the
+   * AppConfig profile holding them
+   *
+   * @param options - options object
+   * @param options.fn - the function applying the cleanup rules
+   * @param options.rulesSource - the SSM parameter or AppConfig profile holding the rules
+   */
+  #grantReadRules({
+    fn,
+    rulesSource,
+  }: {
+    fn: LambdaFn;
+    rulesSource: RulesSource;
+  }) {
+    if (rulesSource.type === 'ssm') {
+      fn.addToRolePolicy(
+        new PolicyStatement({
+          actions: ['ssm:GetParameter'],
+          resources: [
+            `arn:aws:ssm:${this.region}:${this.account}:parameter${rulesSource.parameterName}`,
+          ],
+        })
+      );
+      return;
+    }
+    fn.addToRolePolicy(
+      new PolicyStatement({
+        actions: [
+          'appconfig:StartConfigurationSession',
+          'appconfig:GetLatestConfiguration',
+        ],
+        resources: [
+          `arn:aws:appconfig:${this.region}:${this.account}:application/${rulesSource.applicationId}/environment/${rulesSource.environmentId}/configuration/${rulesSource.configurationProfileId}`,
+        ],
+      })
+    );
+  }
+
   /**
    * Adds two DENY statements to a resource's policy:
    *  - Deny non-TLS requests for specified actions (aws:SecureTransport = false)
-   *  - Deny cross-account requests for specified deny actions (aws:SourceAccount != this.account)
+   *  - Deny cross-account requests for specified deny actions (aws:SourceAccount != this.account),
+   *    or requests from outside the organization in multi-account mode (aws:SourceOrgID)
    *
    * @param options - options object
    * @param options.resource - object with addToResourcePolicy method (Queue or Topic)
    * @param options.tlsActions - actions to include in the TLS DENY (e.g., ['sqs:*'])
    * @param options.denyActions - actions to include in cross-account DENY (e.g., ['sqs:SendMessage'])
+   * @param options.organization - the organization allowed to send messages in multi-account mode
    */
   #addRequireTlsAndDenyCrossAccount({
     resource,
     tlsActions,
     denyActions,
+    organization,
   }: {
     resource: IQueue;
     tlsActions: PolicyStatementProps['actions'];
     denyActions: PolicyStatementProps['actions'];
+    organization?: OrganizationConfig;
   }) {
     resource.addToResourcePolicy(
       new PolicyStatement({
@@ -564,15 +1708,174 @@ class LogGroupCleanerStack extends Stack {
         actions: denyActions,
         resources: ['*'],
         conditions: {
-          StringNotEquals: { 'aws:SourceAccount': this.account },
+          StringNotEquals: organization
+            ? { 'aws:SourceOrgID': organization.id }
+            : { 'aws:SourceAccount': this.account },
+        },
+      })
+    );
+  }
+}
+
+/**
+ * Stack deployed to each member account of the organization, with a
+ * CloudFormation StackSet or `cdk deploy`
+ *
+ * It forwards the log group events of the account to the central bus of the
+ * app, and holds the role the app assumes to operate on the log groups of
+ * the account. The stack needs no bootstrapping.
+ */
+class LogGroupCleanerSpokeStack extends Stack {
+  public constructor(
+    scope: Construct,
+    id: string,
+    config: AppConfig & { organization: OrganizationConfig },
+    props?: StackProps
+  ) {
+    super(scope, id, {
+      ...props,
+      synthesizer: new BootstraplessSynthesizer(),
+    });
+
+    const { appName, organization } = config;
+    const { hubAccountId, hubRegion } = organization;
+
+    addForwardingRule(this, {
+      config,
+      eventBusArn: `arn:aws:events:${hubRegion}:${hubAccountId}:event-bus/${getCentralBusName(appName)}`,
+    });
+
+    // Only the roles of the app in the hub account can assume this role
+    const spokeRole = new Role(this, 'spoke-role', {
+      roleName: getSpokeRoleName(appName),
+      assumedBy: new AccountPrincipal(hubAccountId).withConditions({
+        ArnLike: {
+          'aws:PrincipalArn': `arn:aws:iam::${hubAccountId}:role/${appName}-*`,
         },
+      }),
+    });
+    spokeRole.addToPolicy(
+      new PolicyStatement({
+        actions: [
+          'logs:DescribeLogGroups',
+          'logs:DescribeLogStreams',
+          'logs:ListTagsForResource',
+          'logs:PutRetentionPolicy',
+          'logs:DeleteLogGroup',
+        ],
+        resources: [
+          Arn.format(
+            {
+              region: '*',
+              service: 'logs',
+              resource: 'log-group',
+              resourceName: '*',
+              arnFormat: ArnFormat.COLON_RESOURCE_NAME,
+            },
+            this
+          ),
+        ],
       })
     );
+    NagSuppressions.addResourceSuppressions(
+      spokeRole,
+      [
+        {
+          id: 'AwsSolutions-IAM5',
+          reason:
+            'The app must be able to operate on arbitrary CloudWatch log groups of the member account, which requires wildcard resources',
+          appliesTo: [
+            'Resource::arn:<AWS::Partition>:logs:*:<AWS::AccountId>:log-group:*',
+          ],
+        },
+      ],
+      true
+    );
   }
 }
 
-new LogGroupCleanerStack(app, config.appName, config, {
-  tags: {
-    Service: config.appName,
-  },
-});
+/**
+ * Stack deployed to each of the other regions of the app, forwarding their
+ * log group events to the central bus in the region of the app
+ */
+class LogGroupEventForwarderStack extends Stack {
+  public constructor(
+    scope: Construct,
+    id: string,
+    config: AppConfig & { primaryRegion: string },
+    props?: StackProps
+  ) {
+    super(scope, id, props);
+
+    const { appName, primaryRegion } = config;
+
+    // The central bus is in the same account, so the role of the rule is
+    // enough to put events on it
+    addForwardingRule(this, {
+      config,
+      eventBusArn: Arn.format(
+        {
+          region: primaryRegion,
+          service: 'events',
+          resource: 'event-bus',
+          resourceName: getCentralBusName(appName),
+        },
+        this
+      ),
+    });
+  }
+}
+
+// In multi-account mode the app is deployed to the region of the hub account
+const primaryRegion =
+  config.organization?.hubRegion ?? process.env.CDK_DEFAULT_REGION;
+// The configured regions other than the one of the app forward their log
+// group events to the central bus
+const forwardedRegions = config.regions.filter(
+  (region) => region !== primaryRegion
+);
+
+const mainStack = new LogGroupCleanerStack(
+  app,
+  config.appName,
+  { ...config, forwardedRegions },
+  {
+    tags: {
+      Service: config.appName,
+    },
+  }
+);
+
+for (const region of forwardedRegions) {
+  if (!primaryRegion) {
+    throw new Error(
+      'The region of the app is needed to forward the events of the other regions, set it with AWS_REGION or the AWS profile'
+    );
+  }
+  const forwarderStack = new LogGroupEventForwarderStack(
+    app,
+    `${config.appName}-forwarder-${region}`,
+    { ...config, primaryRegion },
+    {
+      env: { region },
+      tags: {
+        Service: config.appName,
+      },
+    }
+  );
+  // The central bus must exist before events are forwarded to it
+  forwarderStack.addDependency(mainStack);
+}
+
+if (config.organization) {
+  new LogGroupCleanerSpokeStack(
+    app,
+    `${config.appName}-spoke`,
+    { ...config, organization: config.organization },
+    {
+      tags: {
+        Service: config.appName,
+      },
+    }
+  );
+}
@@ -0,0 +1,149 @@
+import { addUserAgentMiddleware } from '@aws-lambda-powertools/commons';
+import { getBooleanFromEnv } from '@aws-lambda-powertools/commons/utils/env';
+import { paginateDescribeLogGroups } from '@aws-sdk/client-cloudwatch-logs';
+import {
+  InvocationType,
+  InvokeCommand,
+  LambdaClient,
+} from '@aws-sdk/client-lambda';
+import type { Context } from 'aws-lambda';
+import { z } from 'zod';
+import {
+  applyDeletionPlan,
+  configuredRegions,
+  type DeletionPlan,
+  planLogGroupDeletion,
+} from './backfill.ts';
+import { getRegionalCwClient } from './cloudwatch.ts';
+import { logger } from './logger.ts';
+import { getSchedule } from './scheduling.ts';
+
+const lambdaClient = new LambdaClient({
+  retryMode: 'adaptive',
+  maxAttempts: 5,
+});
+addUserAgentMiddleware(lambdaClient, 'NO-OP');
+
+/**
+ * Time left before the sweep hands over the remaining work to a new invocation
+ */
+const CONTINUATION_THRESHOLD_MS = 60_000;
+
+const dryRun = getBooleanFromEnv({ key: 'DRY_RUN', defaultValue: false });
+
+const SweepEventSchema = z.object({
+  /** Regions to sweep, defaults to the configured regions */
+  regions: z.array(z.string()).min(1).optional(),
+  /** Token to resume the sweep of the first region from */
+  nextToken: z.string().optional(),
+});
+
+type SweepEvent = z.infer<typeof SweepEventSchema>;
+
+type SweepOutcome =
+  | Exclude<DeletionPlan['outcome'], 'due'>
+  | Awaited<ReturnType<typeof sweepDueLogGroup>>;
+
+/**
+ * Schedule the deletion of a due log group, unless it already has a schedule
+ *
+ * Existing schedules may have been postponed, so they are kept as they are.
+ * Only the ones created in dry-run mode are replaced once dry-run mode is
+ * turned off.
+ *
+ * @param plan - The deletion plan of the log group
+ */
+const sweepDueLogGroup = async (
+  plan: Extract<DeletionPlan, { outcome: 'due' }>
+) => {
+  const schedule = await getSchedule(plan.scheduleName);
+  if (schedule && (dryRun || !schedule.dryRun)) {
+    logger.info('Log group already has a schedule, keeping it', {
+      logGroupName: plan.logGroupName,
+      scheduleName: plan.scheduleName,
+    });
+    return 'alreadyScheduled' as const;
+  }
+
+  return applyDeletionPlan(plan);
+};
+
+/**
+ * Sweep the existing log groups of all configured regions and schedule the
+ * deletion of the ones matching the cleanup rules
+ *
+ * This catches log groups created before the stack was deployed, or while the
+ * EventBridge rule wasn't delivering events. Log groups that already have a
+ * schedule keep it, so that postponed deletions stay postponed.
+ *
+ * When the function is about to time out, the remaining regions and the
+ * pagination token are handed over to a new asynchronous invocation.
+ */
+export const handler = async (event: SweepEvent, context: Context) => {
+  logger.addContext(context);
+  logger.logEventIfEnabled(event);
+
+  const { regions = configuredRegions, nextToken } = SweepEventSchema.parse(
+    event ?? {}
+  );
+  const summary: Record<SweepOutcome, number> = {
+    notMatched: 0,
+    ignored: 0,
+    skipped: 0,
+    scheduled: 0,
+    enqueued: 0,
+    alreadyScheduled: 0,
+  };
+
+  const handOver = async (continuation: SweepEvent) => {
+    await lambdaClient.send(
+      new InvokeCommand({
+        FunctionName: context.functionName,
+        InvocationType: InvocationType.Event,
+        Payload: JSON.stringify(continuation),
+      })
+    );
+    logger.info('Sweep handed over to a new invocation', {
+      summary,
+      regions: continuation.regions,
+    });
+    return { ...summary, continued: true };
+  };
+
+  for (const [index, region] of regions.entries()) {
+    // A region finished close to the timeout leaves no time for the next one
+    if (
+      index > 0 &&
+      context.getRemainingTimeInMillis() < CONTINUATION_THRESHOLD_MS
+    ) {
+      return handOver({ regions: regions.slice(index) });
+    }
+    let pageToken = index === 0 ? nextToken : undefined;
+    for await (const page of paginateDescribeLogGroups(
+      { client: getRegionalCwClient(region), startingToken: pageToken },
+      {}
+    )) {
+      for (const logGroup of page.logGroups ?? []) {
+        const plan = await planLogGroupDeletion({ logGroup, region });
+        summary[
+          plan.outcome === 'due' ? await sweepDueLogGroup(plan) : plan.outcome
+        ]++;
+      }
+      pageToken = page.nextToken;
+
+      if (
+        pageToken &&
+        context.getRemainingTimeInMillis() < CONTINUATION_THRESHOLD_MS
+      ) {
+        return handOver({
+          regions: regions.slice(index),
+          nextToken: pageToken,
+        });
+      }
+    }
+    logger.info('Swept region', { region });
+  }
+
+  logger.info('Sweep completed', { summary });
+  return { ...summary, continued: false };
+};
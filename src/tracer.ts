@@ -0,0 +1,49 @@
+import { Tracer } from '@aws-lambda-powertools/tracer';
+
+const tracer = new Tracer({});
+
+/**
+ * Run a unit of work in its own subsegment, recording its errors
+ *
+ * @param name - The name of the subsegment
+ * @param work - The work to run while the subsegment is active
+ * @param annotations - Annotations to index the subsegment by, undefined values are left out
+ */
+const traceSubsegment = async <T>(
+  name: string,
+  work: () => Promise<T>,
+  annotations: Record<string, string | undefined> = {}
+) => {
+  const parent = tracer.getSegment();
+  const subsegment = parent?.addNewSubsegment(name);
+  if (subsegment) tracer.setSegment(subsegment);
+  for (const [key, value] of Object.entries(annotations)) {
+    if (value !== undefined) tracer.putAnnotation(key, value);
+  }
+
+  try {
+    return await work();
+  } catch (error) {
+    tracer.addErrorAsMetadata(error as Error);
+    throw error;
+  } finally {
+    subsegment?.close();
+    if (parent) tracer.setSegment(parent);
+  }
+};
+
+/**
+ * Run a Lambda handler in the `## <handler>` subsegment, annotated with the
+ * cold start and the service name like the Tracer middleware does
+ *
+ * @param work - The body of the handler
+ */
+const traceHandler = <T>(work: () => Promise<T>) =>
+  traceSubsegment(`## ${process.env._HANDLER}`, async () => {
+    tracer.annotateColdStart();
+    tracer.addServiceNameAnnotation();
+
+    return work();
+  });
+
+export { traceHandler, tracer, traceSubsegment };
@@ -1,3 +1,5 @@
+import type { Temporal } from 'temporal-polyfill';
+
 declare global {
   namespace NodeJS {
     interface ProcessEnv {
@@ -6,17 +8,82 @@ declare global {
   }
 }
 
-type AppConfig = {
-  /** Name prefix for all AWS resources */
-  appName: string;
-  /** Log group name prefixes to match (e.g., "/aws/lambda/MyApp-") */
-  logGroupPatterns: string[];
-  /** Tags that must be present on the log group creation event */
-  requiredTags: Record<string, string>;
-  /** Days to wait after retention period before deleting */
-  deletionDelayDays: number;
-  /** SSM parameter name containing the Slack workflow webhook URL */
-  slackWebhookParameter: string;
+type NeverExpirePolicy = 'applyDefaultRetention' | 'delay' | 'skip';
+
+type SchedulingBackendName = 'scheduler' | 'dynamodb';
+
+/**
+ * Action of the cleanup rule a deletion was scheduled for, `ignore` rules
+ * never schedule one
+ */
+type RuleAction = 'delete' | 'archive';
+
+/**
+ * Pending deletion of a log group, as stored by the scheduling backend
+ */
+type ScheduledDeletion = {
+  scheduleName: string;
+  logGroupName: string;
+  region: string;
+  ruleName?: string;
+  /** Action of the rule when the deletion was scheduled, so that renaming or removing the rule doesn't change it */
+  ruleAction?: RuleAction;
+  /** Whether the schedule was created in dry-run mode */
+  dryRun?: boolean;
+  /** How many times the deletion was postponed because the log group was still active */
+  postponeCount?: number;
+  /** Id of the CloudTrail event that created the log group, to follow it until deletion */
+  correlationId?: string;
+  /** Member account of the log group in multi-account mode, `undefined` for the account of the app */
+  accountId?: string;
+  /** When the log group is due for deletion, as read back from the backend */
+  deletionDate?: Temporal.Instant;
+};
+
+/**
+ * Operations shared by the backends storing the pending deletions
+ */
+type SchedulingBackend = {
+  /** Create the schedule, or move it to the new deletion date if it already exists */
+  upsertSchedule: (
+    params: ScheduledDeletion & { deletionDate: Temporal.Instant }
+  ) => Promise<void>;
+  /** Move an existing schedule to a new deletion date */
+  updateSchedule: (
+    params: ScheduledDeletion & { deletionDate: Temporal.Instant }
+  ) => Promise<void>;
+  /** Read a schedule, `undefined` when it doesn't exist or can't be parsed */
+  getSchedule: (scheduleName: string) => Promise<ScheduledDeletion | undefined>;
+  /** Delete a schedule, treating already deleted schedules as success */
+  deleteSchedule: (scheduleName: string) => Promise<void>;
+  /** List the names of all schedules of a log group, whatever its creation time */
+  listScheduleNames: (params: {
+    logGroupName: string;
+    region: string;
+    accountId?: string;
+  }) => Promise<string[]>;
+  /** List all the schedules of the app */
+  listSchedules: () => Promise<ScheduledDeletion[]>;
+  /**
+   * List the schedules of the log groups whose name starts with the prefix
+   * and located in the region, stopping once `limit` schedules were found.
+   * `undefined` when the cursor doesn't come from a previous page.
+   */
+  findSchedulesPage: (params: {
+    prefix?: string;
+    region?: string;
+    limit: number;
+    cursor?: unknown;
+  }) => Promise<SchedulePage | undefined>;
+};
+
+/**
+ * Page of pending deletions, with the cursor where the listing stopped if
+ * there may be more
+ */
+type SchedulePage = {
+  schedules: ScheduledDeletion[];
+  cursor?: unknown;
 };
 
 type SlackPayload = {
@@ -29,4 +96,12 @@ type SlackPayload = {
   appName: string;
 };
 
-export type { AppConfig, SlackPayload };
+export type {
+  NeverExpirePolicy,
+  RuleAction,
+  ScheduledDeletion,
+  SchedulePage,
+  SchedulingBackend,
+  SchedulingBackendName,
+  SlackPayload,
+};
@@ -0,0 +1,354 @@
+import {
+  DeleteScheduleCommand,
+  GetScheduleCommand,
+  ListSchedulesCommand,
+  ResourceNotFoundException,
+  SchedulerClient,
+  UpdateScheduleCommand,
+} from '@aws-sdk/client-scheduler';
+import { SendMessageCommand, SQSClient } from '@aws-sdk/client-sqs';
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import type { LambdaFunctionURLEventWithIAMAuthorizer } from 'aws-lambda';
+import { mockClient } from 'aws-sdk-client-mock';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { handler } from '../src/admin-handler.ts';
+import { context } from './helpers.ts';
+
+vi.hoisted(() => {
+  process.env.POWERTOOLS_DEV = 'true';
+  process.env.AWS_REGION = 'eu-west-1';
+  process.env.DELETION_QUEUE_ARN =
+    'arn:aws:sqs:eu-west-1:123456789023:deletion-queue';
+  process.env.DELETION_QUEUE_URL =
+    'https://sqs.eu-west-1.amazonaws.com/123456789023/deletion-queue';
+  process.env.SCHEDULER_ROLE_ARN =
+    'arn:aws:iam::123456789023:role/publish-to-queue-role';
+  process.env.SCHEDULE_GROUP_NAME = 'CWLogsGarbageGoober-deletions';
+  process.env.LEDGER_TABLE_NAME = 'CWLogsGarbageGoober-log-group-ledger';
+});
+
+describe('admin-handler', () => {
+  const schedulerClient = mockClient(SchedulerClient);
+  const sqsClient = mockClient(SQSClient);
+  const documentClient = mockClient(DynamoDBDocumentClient);
+
+  const scheduleName =
+    'DeleteLogGroup-0123456789abcdef01234567-0123456789abcdef';
+  const logGroupName = '/aws/lambda/Metrics-20-x86-132f7';
+
+  const buildEvent = (
+    method: string,
+    rawPath: string,
+    {
+      queryStringParameters,
+      body,
+    }: { queryStringParameters?: Record<string, string>; body?: unknown } = {}
+  ) =>
+    ({
+      rawPath,
+      queryStringParameters,
+      body: body === undefined ? undefined : JSON.stringify(body),
+      isBase64Encoded: false,
+      requestContext: {
+        http: { method },
+        authorizer: {
+          iam: { userArn: 'arn:aws:iam::123456789023:user/admin' },
+        },
+      },
+    }) as unknown as LambdaFunctionURLEventWithIAMAuthorizer;
+
+  const mockSchedule = (
+    name: string,
+    input: Record<string, unknown>,
+    expression = 'at(2024-10-18T13:26:07)'
+  ) =>
+    schedulerClient.on(GetScheduleCommand, { Name: name }).resolves({
+      ScheduleExpression: expression,
+      Target: {
+        Arn: 'arn:aws:sqs:eu-west-1:123456789023:deletion-queue',
+        RoleArn: 'arn:aws:iam::123456789023:role/publish-to-queue-role',
+        Input: JSON.stringify(input),
+      },
+    });
+
+  afterEach(() => {
+    schedulerClient.reset();
+    sqsClient.reset();
+    documentClient.reset();
+  });
+
+  it('lists the pending deletions matching the prefix and region, soonest first', async () => {
+    // Prepare
+    schedulerClient.on(ListSchedulesCommand).resolves({
+      Schedules: [
+        { Name: 'DeleteLogGroup-a' },
+        { Name: 'DeleteLogGroup-b' },
+        { Name: 'DeleteLogGroup-c' },
+      ],
+    });
+    mockSchedule(
+      'DeleteLogGroup-a',
+      { logGroupName, awsRegion: 'eu-west-1', ruleName: 'metrics' },
+      'at(2024-10-20T10:00:00)'
+    );
+    mockSchedule(
+      'DeleteLogGroup-b',
+      { logGroupName, awsRegion: 'eu-west-1', ruleName: 'metrics' },
+      'at(2024-10-18T10:00:00)'
+    );
+    mockSchedule('DeleteLogGroup-c', {
+      logGroupName: '/aws/lambda/Tracer-20-x86-132f7',
+      awsRegion: 'eu-west-1',
+    });
+
+    // Act
+    const result = await handler(
+      buildEvent('GET', '/deletions', {
+        queryStringParameters: {
+          prefix: '/aws/lambda/Metrics-',
+          region: 'eu-west-1',
+        },
+      }),
+      context
+    );
+
+    // Assess
+    expect(result).toEqual(expect.objectContaining({ statusCode: 200 }));
+    expect(JSON.parse((result as { body: string }).body)).toEqual({
+      deletions: [
+        {
+          scheduleName: 'DeleteLogGroup-b',
+          logGroupName,
+          region: 'eu-west-1',
+          ruleName: 'metrics',
+          deletionDate: '2024-10-18T10:00:00Z',
+        },
+        {
+          scheduleName: 'DeleteLogGroup-a',
+          logGroupName,
+          region: 'eu-west-1',
+          ruleName: 'metrics',
+          deletionDate: '2024-10-20T10:00:00Z',
+        },
+      ],
+    });
+  });
+
+  it('lists the pending deletions a page at a time', async () => {
+    // Prepare
+    const names = Array.from({ length: 12 }, (_, i) => `DeleteLogGroup-${i}`);
+    schedulerClient.on(ListSchedulesCommand).resolves({
+      Schedules: names.map((Name) => ({ Name })),
+      NextToken: 'page-2',
+    });
+    for (const [i, name] of names.entries()) {
+      mockSchedule(
+        name,
+        { logGroupName, awsRegion: 'eu-west-1' },
+        `at(2024-10-${10 + i}T10:00:00)`
+      );
+    }
+
+    // Act
+    const first = await handler(
+      buildEvent('GET', '/deletions', {
+        queryStringParameters: { limit: '2' },
+      }),
+      context
+    );
+    const { nextToken } = JSON.parse((first as { body: string }).body);
+    const second = await handler(
+      buildEvent('GET', '/deletions', {
+        queryStringParameters: { limit: '2', nextToken },
+      }),
+      context
+    );
+
+    // Assess
+    expect(JSON.parse((first as { body: string }).body)).toEqual({
+      deletions: [
+        expect.objectContaining({ scheduleName: 'DeleteLogGroup-0' }),
+        expect.objectContaining({ scheduleName: 'DeleteLogGroup-1' }),
+      ],
+      nextToken: expect.any(String),
+    });
+    expect(JSON.parse((second as { body: string }).body)).toEqual({
+      deletions: [
+        expect.objectContaining({ scheduleName: 'DeleteLogGroup-2' }),
+        expect.objectContaining({ scheduleName: 'DeleteLogGroup-3' }),
+      ],
+      nextToken: expect.any(String),
+    });
+    // Schedules are read 10 at a time, and the listing stops once the page is full
+    expect(schedulerClient).toReceiveCommandTimes(GetScheduleCommand, 20);
+    expect(schedulerClient).toReceiveCommandTimes(ListSchedulesCommand, 2);
+    expect(schedulerClient).not.toReceiveCommandWith(ListSchedulesCommand, {
+      NextToken: 'page-2',
+    });
+  });
+
+  it.each<{ queryStringParameters: Record<string, string> }>([
+    { queryStringParameters: { limit: '0' } },
+    { queryStringParameters: { limit: '1000' } },
+    { queryStringParameters: { nextToken: 'not-a-token' } },
+  ])(
+    'rejects invalid listings ($queryStringParameters)',
+    async ({ queryStringParameters }) => {
+      // Act
+      const result = await handler(
+        buildEvent('GET', '/deletions', { queryStringParameters }),
+        context
+      );
+
+      // Assess
+      expect(result).toEqual(expect.objectContaining({ statusCode: 400 }));
+      expect(schedulerClient).not.toReceiveCommand(GetScheduleCommand);
+    }
+  );
+
+  it('cancels a pending deletion', async () => {
+    // Prepare
+    mockSchedule(scheduleName, { logGroupName, awsRegion: 'eu-west-1' });
+    schedulerClient.on(DeleteScheduleCommand).resolves({});
+
+    // Act
+    const result = await handler(
+      buildEvent('DELETE', `/deletions/${scheduleName}`),
+      context
+    );
+
+    // Assess
+    expect(result).toEqual(expect.objectContaining({ statusCode: 200 }));
+    expect(schedulerClient).toReceiveCommandWith(DeleteScheduleCommand, {
+      Name: scheduleName,
+      GroupName: 'CWLogsGarbageGoober-deletions',
+    });
+    expect(documentClient).toReceiveCommandWith(UpdateCommand, {
+      ExpressionAttributeValues: expect.objectContaining({
+        ':state': 'SKIPPED',
+        ':reason': 'Deletion cancelled through the admin API',
+        ':hold': 'cancelled',
+      }),
+    });
+  });
+
+  it('postpones a pending deletion to the requested date', async () => {
+    // Prepare
+    mockSchedule(scheduleName, {
+      logGroupName,
+      awsRegion: 'eu-west-1',
+      ruleName: 'metrics',
+      correlationId: 'creation-event-id',
+    });
+    schedulerClient.on(UpdateScheduleCommand).resolves({});
+
+    // Act
+    const result = await handler(
+      buildEvent('POST', `/deletions/${scheduleName}/postpone`, {
+        body: { deletionDate: '2099-01-01T12:00:00+01:00' },
+      }),
+      context
+    );
+
+    // Assess
+    expect(result).toEqual(expect.objectContaining({ statusCode: 200 }));
+    expect(schedulerClient).toReceiveCommandWith(UpdateScheduleCommand, {
+      Name: scheduleName,
+      ScheduleExpression: 'at(2099-01-01T11:00:00)',
+      Target: expect.objectContaining({
+        Input: JSON.stringify({
+          logGroupName,
+          awsRegion: 'eu-west-1',
+          ruleName: 'metrics',
+          correlationId: 'creation-event-id',
+        }),
+      }),
+    });
+  });
+
+  it.each([
+    { case: 'is missing', body: {} },
+    { case: 'is in the past', body: { deletionDate: '2020-01-01T00:00:00Z' } },
+  ])('rejects a postponement whose date $case', async ({ body }) => {
+    // Prepare
+    mockSchedule(scheduleName, { logGroupName, awsRegion: 'eu-west-1' });
+
+    // Act
+    const result = await handler(
+      buildEvent('POST', `/deletions/${scheduleName}/postpone`, { body }),
+      context
+    );
+
+    // Assess
+    expect(result).toEqual(expect.objectContaining({ statusCode: 400 }));
+    expect(schedulerClient).not.toReceiveCommand(UpdateScheduleCommand);
+  });
+
+  it('sends a pending deletion to the deletion queue right away', async () => {
+    // Prepare
+    mockSchedule(scheduleName, {
+      logGroupName,
+      awsRegion: 'eu-west-1',
+      ruleName: 'metrics',
+      postponeCount: 1,
+    });
+    sqsClient.on(SendMessageCommand).resolves({});
+    schedulerClient.on(DeleteScheduleCommand).resolves({});
+
+    // Act
+    const result = await handler(
+      buildEvent('POST', `/deletions/${scheduleName}/delete-now`),
+      context
+    );
+
+    // Assess
+    expect(result).toEqual(expect.objectContaining({ statusCode: 202 }));
+    expect(sqsClient).toReceiveCommandWith(SendMessageCommand, {
+      QueueUrl:
+        'https://sqs.eu-west-1.amazonaws.com/123456789023/deletion-queue',
+      MessageBody: JSON.stringify({
+        logGroupName,
+        awsRegion: 'eu-west-1',
+        ruleName: 'metrics',
+        postponeCount: 1,
+      }),
+    });
+    expect(schedulerClient).toReceiveCommandWith(DeleteScheduleCommand, {
+      Name: scheduleName,
+    });
+  });
+
+  it('returns not found for unknown deletions', async () => {
+    // Prepare
+    schedulerClient.on(GetScheduleCommand).rejects(
+      new ResourceNotFoundException({
+        message: 'Schedule not found',
+        Message: 'Schedule not found',
+        $metadata: {},
+      })
+    );
+
+    // Act
+    const result = await handler(
+      buildEvent('DELETE', `/deletions/${scheduleName}`),
+      context
+    );
+
+    // Assess
+    expect(result).toEqual(expect.objectContaining({ statusCode: 404 }));
+    expect(schedulerClient).not.toReceiveCommand(DeleteScheduleCommand);
+  });
+
+  it.each([
+    { method: 'GET', path: '/schedules' },
+    { method: 'PUT', path: `/deletions/${scheduleName}` },
+    { method: 'POST', path: `/deletions/${scheduleName}/archive` },
+  ])('returns not found for $method $path', async ({ method, path }) => {
+    // Act
+    const result = await handler(buildEvent(method, path), context);
+
+    // Assess
+    expect(result).toEqual(expect.objectContaining({ statusCode: 404 }));
+    expect(schedulerClient).not.toReceiveCommand(GetScheduleCommand);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { AppConfigSchema } from '../src/schemas/app-config.ts';
+
+describe('app-config', () => {
+  it('fills in the defaults of a minimal configuration', () => {
+    // Act
+    const config = AppConfigSchema.parse({
+      logGroupPatterns: ['/aws/lambda/Logger-'],
+      deletionDelayDays: 3,
+    });
+
+    // Assess
+    expect(config).toEqual(
+      expect.objectContaining({
+        appName: 'CWLogsGarbageGoober',
+        includePatterns: [],
+        requiredTags: {},
+        rules: [],
+        neverExpirePolicy: 'delay',
+        neverExpireDelayDays: 3,
+        schedulingBackend: 'scheduler',
+        dryRun: false,
+        slackWebhookParameter: '/slack-cloudwatch-alerts-webhook-url',
+      })
+    );
+    expect(config.organization).toBeUndefined();
+  });
+
+  it.each([
+    {
+      case: 'no log groups are selected',
+      config: { logGroupPatterns: [] },
+      path: 'logGroupPatterns',
+    },
+    {
+      case: 'a number is passed as a string',
+      config: { logGroupPatterns: ['/aws/'], deletionDelayDays: '3' },
+      path: 'deletionDelayDays',
+    },
+    {
+      case: 'the webhook parameter has no leading slash',
+      config: {
+        logGroupPatterns: ['/aws/'],
+        slackWebhookParameter: 'slack-webhook-url',
+      },
+      path: 'slackWebhookParameter',
+    },
+    {
+      case: 'the rules parameter has no leading slash',
+      config: {
+        logGroupPatterns: ['/aws/'],
+        rulesSource: { type: 'ssm', parameterName: 'goober-rules' },
+      },
+      path: 'rulesSource.parameterName',
+    },
+    {
+      case: 'the default retention is not supported by CloudWatch Logs',
+      config: {
+        logGroupPatterns: ['/aws/'],
+        neverExpireDefaultRetentionInDays: 10,
+      },
+      path: 'neverExpireDefaultRetentionInDays',
+    },
+    {
+      case: 'two rules have the same name',
+      config: {
+        rules: [
+          { name: 'e2e', logGroupPatterns: ['/aws/'], deletionDelayDays: 1 },
+          { name: 'e2e', logGroupPatterns: ['/tmp/'], deletionDelayDays: 1 },
+        ],
+      },
+      path: 'rules[1].name',
+    },
+  ])('rejects the configuration when $case', ({ config, path }) => {
+    // Act
+    const result = AppConfigSchema.safeParse(config);
+
+    // Assess
+    expect(result.success).toBe(false);
+    expect(z.prettifyError(result.error as z.ZodError)).toContain(`at ${path}`);
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  AppConfigDataClient,
+  GetLatestConfigurationCommand,
+  StartConfigurationSessionCommand,
+} from '@aws-sdk/client-appconfigdata';
+import { GetParameterCommand, SSMClient } from '@aws-sdk/client-ssm';
+import { Uint8ArrayBlobAdapter } from '@smithy/core/serde';
+import { mockClient } from 'aws-sdk-client-mock';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.POWERTOOLS_DEV = 'true';
+  process.env.AWS_REGION = 'eu-west-1';
+  process.env.CLEANUP_RULES = JSON.stringify([
+    {
+      name: 'deployed',
+      logGroupPatterns: ['/aws/lambda/Logger-'],
+      deletionDelayDays: 1,
+    },
+  ]);
+});
+
+describe('cleanup-rules', () => {
+  const ssmClient = mockClient(SSMClient);
+  const appConfigClient = mockClient(AppConfigDataClient);
+
+  const remoteRules = [
+    {
+      name: 'remote',
+      includePatterns: ['/aws/lambda/*-e2e'],
+      deletionDelayDays: 2,
+    },
+  ];
+
+  // The rules source is read when the module is loaded
+  const loadModule = async (env: Record<string, string>) => {
+    vi.resetModules();
+    for (const [key, value] of Object.entries(env)) {
+      vi.stubEnv(key, value);
+    }
+
+    return import('../src/cleanup-rules.ts');
+  };
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    ssmClient.reset();
+    appConfigClient.reset();
+  });
+
+  it('uses the rules deployed with the stack without a rules source', async () => {
+    // Prepare
+    const { getCleanupRules } = await loadModule({});
+
+    // Act
+    const { cleanupRules, findMatchingRule } = await getCleanupRules();
+
+    // Assess
+    expect(cleanupRules.map(({ name }) => name)).toEqual(['deployed']);
+    expect(
+      findMatchingRule({ logGroupName: '/aws/lambda/Logger-20-x86' })?.name
+    ).toBe('deployed');
+    expect(ssmClient).not.toReceiveCommand(GetParameterCommand);
+  });
+
+  it('loads the rules from the SSM parameter and caches them', async () => {
+    // Prepare
+    ssmClient.on(GetParameterCommand).resolves({
+      Parameter: { Value: JSON.stringify(remoteRules) },
+    });
+    const { getCleanupRules } = await loadModule({
+      RULES_PARAMETER_NAME: '/goober/rules',
+    });
+
+    // Act
+    await getCleanupRules();
+    const { cleanupRules, findRulesByName } = await getCleanupRules();
+
+    // Assess
+    expect(cleanupRules.map(({ name }) => name)).toEqual(['remote']);
+    expect(findRulesByName('/aws/lambda/Logger-20-e2e')).toHaveLength(1);
+    expect(ssmClient).toReceiveCommandTimes(GetParameterCommand, 1);
+    expect(ssmClient).toReceiveCommandWith(GetParameterCommand, {
+      Name: '/goober/rules',
+    });
+  });
+
+  it('keeps the last valid rules when the parameter holds invalid rules', async () => {
+    // Prepare
+    ssmClient.on(GetParameterCommand).resolves({
+      Parameter: { Value: JSON.stringify([{ name: 'no-delay' }]) },
+    });
+    const { getCleanupRules } = await loadModule({
+      RULES_PARAMETER_NAME: '/goober/invalid-rules',
+    });
+
+    // Act
+    const { cleanupRules } = await getCleanupRules();
+
+    // Assess
+    expect(cleanupRules.map(({ name }) => name)).toEqual(['deployed']);
+  });
+
+  it('loads the rules from the AppConfig profile', async () => {
+    // Prepare
+    appConfigClient
+      .on(StartConfigurationSessionCommand)
+      .resolves({ InitialConfigurationToken: 'initial-token' })
+      .on(GetLatestConfigurationCommand)
+      .resolves({
+        Configuration: Uint8ArrayBlobAdapter.fromString(
+          JSON.stringify(remoteRules)
+        ),
+        NextPollConfigurationToken: 'next-token',
+      });
+    const { getCleanupRules } = await loadModule({
+      RULES_APPCONFIG_APPLICATION: 'abc1234',
+      RULES_APPCONFIG_ENVIRONMENT: 'def5678',
+      RULES_APPCONFIG_PROFILE: 'ghi9012',
+    });
+
+    // Act
+    const { cleanupRules } = await getCleanupRules();
+
+    // Assess
+    expect(cleanupRules.map(({ name }) => name)).toEqual(['remote']);
+    expect(appConfigClient).toReceiveCommandWith(
+      StartConfigurationSessionCommand,
+      {
+        ApplicationIdentifier: 'abc1234',
+        EnvironmentIdentifier: 'def5678',
+        ConfigurationProfileIdentifier: 'ghi9012',
+      }
+    );
+  });
+});
@@ -1,30 +1,87 @@
 import { FullBatchFailureError } from '@aws-lambda-powertools/batch';
 import {
   CloudWatchLogsClient,
+  CreateExportTaskCommand,
   DeleteLogGroupCommand,
+  DescribeExportTasksCommand,
+  DescribeLogGroupsCommand,
+  DescribeLogStreamsCommand,
+  LimitExceededException,
+  ListTagsForResourceCommand,
   ResourceNotFoundException,
 } from '@aws-sdk/client-cloudwatch-logs';
+import {
+  CreateScheduleCommand,
+  SchedulerClient,
+} from '@aws-sdk/client-scheduler';
+import { SendMessageCommand, SQSClient } from '@aws-sdk/client-sqs';
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
 import type { SQSEvent } from 'aws-lambda';
 import { mockClient } from 'aws-sdk-client-mock';
-import { afterEach, describe, expect, it, vi } from 'vitest';
-import { handler } from '../src/deletion-handler.js';
-import { context, getTestEvent } from './helpers.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { handler } from '../src/deletion-handler.ts';
+import { metrics } from '../src/metrics.ts';
+import { context, getTestEvent } from './helpers.ts';
 
 vi.hoisted(() => {
   process.env.POWERTOOLS_DEV = 'true';
   process.env.AWS_REGION = 'eu-west-1';
+  process.env.DELETION_QUEUE_ARN =
+    'arn:aws:sqs:eu-west-1:123456789023:deletion-queue';
+  process.env.SCHEDULER_ROLE_ARN =
+    'arn:aws:iam::123456789023:role/publish-to-queue-role';
+  process.env.SCHEDULE_GROUP_NAME = 'CWLogsGarbageGoober-deletions';
+  process.env.DELETION_QUEUE_URL =
+    'https://sqs.eu-west-1.amazonaws.com/123456789023/deletion-queue';
+  process.env.ARCHIVE_BUCKET_NAME = 'goober-archive-bucket';
+  process.env.QUIET_PERIOD_HOURS = '24';
+  process.env.MAX_POSTPONEMENTS = '2';
+  process.env.LEDGER_TABLE_NAME = 'CWLogsGarbageGoober-log-group-ledger';
+  process.env.CLEANUP_RULES = JSON.stringify([
+    {
+      name: 'evidence',
+      includePatterns: ['/aws/lambda/Logger-*'],
+      deletionDelayDays: 1,
+      action: 'archive',
+    },
+  ]);
 });
 
 describe('deletion-handler', () => {
   const cwClient = mockClient(CloudWatchLogsClient);
+  const schedulerClient = mockClient(SchedulerClient);
+  const sqsClient = mockClient(SQSClient);
+  const documentClient = mockClient(DynamoDBDocumentClient);
 
   const event = getTestEvent<SQSEvent>({
     eventsPath: '.',
     filename: 'sqs-event',
   });
 
+  const mockTags = (tags: Record<string, string>) =>
+    cwClient.on(ListTagsForResourceCommand).resolves({ tags });
+
+  beforeEach(() => {
+    cwClient
+      .on(DescribeLogGroupsCommand)
+      .callsFake(({ logGroupNamePrefix }) => ({
+        logGroups: [
+          {
+            logGroupName: logGroupNamePrefix,
+            logGroupArn: `arn:aws:logs:eu-west-1:123456789012:log-group:${logGroupNamePrefix}`,
+            creationTime: Date.parse('2024-10-10T13:26:07Z'),
+          },
+        ],
+      }));
+    mockTags({});
+    cwClient.on(DescribeLogStreamsCommand).resolves({ logStreams: [] });
+  });
+
   afterEach(() => {
     cwClient.reset();
+    schedulerClient.reset();
+    sqsClient.reset();
+    documentClient.reset();
   });
 
   it('successfully deletes a log group', async () => {
@@ -41,6 +98,45 @@ describe('deletion-handler', () => {
     });
   });
 
+  it('records the deleted log group and the bytes it reclaimed', async () => {
+    // Prepare
+    cwClient
+      .on(DescribeLogGroupsCommand)
+      .resolves({
+        logGroups: [
+          {
+            logGroupName: '/aws/lambda/Logger-20-x86-test-group',
+            creationTime: Date.parse('2024-10-10T13:26:07Z'),
+            storedBytes: 2048,
+          },
+        ],
+      })
+      .on(DeleteLogGroupCommand)
+      .resolves({});
+    const metricSpy = vi.spyOn(metrics, 'addMetric');
+
+    // Act
+    await handler(event, context, () => {});
+
+    // Assess
+    expect(metricSpy).toHaveBeenCalledWith('LogGroupsDeleted', 'Count', 1);
+    expect(documentClient).toReceiveCommandWith(UpdateCommand, {
+      Key: {
+        logGroupName: '/aws/lambda/Logger-20-x86-test-group',
+        awsRegion: 'eu-west-1',
+      },
+      ExpressionAttributeValues: expect.objectContaining({
+        ':state': 'DELETED',
+        ':storedBytes': 2048,
+      }),
+    });
+    expect(metricSpy).toHaveBeenCalledWith(
+      'StoredBytesReclaimed',
+      'Bytes',
+      2048
+    );
+  });
+
   it('treats ResourceNotFoundException as success (idempotent)', async () => {
     // Prepare
     cwClient.on(DeleteLogGroupCommand).rejects(
@@ -61,6 +157,23 @@ describe('deletion-handler', () => {
     // Prepare
     cwClient.on(DeleteLogGroupCommand).rejects(new Error('Access denied'));
 
+    // Act & Assess
+    await expect(handler(event, context, () => {})).rejects.toThrow(
+      FullBatchFailureError
+    );
+    expect(documentClient).toReceiveCommandWith(UpdateCommand, {
+      ExpressionAttributeValues: expect.objectContaining({
+        ':state': 'FAILED',
+        ':reason': 'Access denied',
+      }),
+    });
+  });
+
+  it('keeps the original error when the failure cannot be recorded', async () => {
+    // Prepare
+    cwClient.on(DeleteLogGroupCommand).rejects(new Error('Access denied'));
+    documentClient.on(UpdateCommand).rejects(new Error('Throttled'));
+
     // Act & Assess
     await expect(handler(event, context, () => {})).rejects.toThrow(
       FullBatchFailureError
@@ -184,4 +297,384 @@ describe('deletion-handler', () => {
       handler(missingFieldsEvent, context, () => {})
     ).rejects.toThrow(FullBatchFailureError);
   });
+
+  it('skips the deletion when the log group no longer exists', async () => {
+    // Prepare
+    cwClient.on(DescribeLogGroupsCommand).resolves({ logGroups: [] });
+
+    // Act
+    const result = await handler(event, context, () => {});
+
+    // Assess
+    expect(result).toEqual({ batchItemFailures: [] });
+    expect(cwClient).not.toReceiveCommand(DeleteLogGroupCommand);
+  });
+
+  it('reads the tags of the log group before deleting it', async () => {
+    // Prepare
+    cwClient.on(DeleteLogGroupCommand).resolves({});
+
+    // Act
+    await handler(event, context, () => {});
+
+    // Assess
+    expect(cwClient).toReceiveCommandWith(ListTagsForResourceCommand, {
+      resourceArn:
+        'arn:aws:logs:eu-west-1:123456789012:log-group:/aws/lambda/Logger-20-x86-test-group',
+    });
+    expect(cwClient).toReceiveCommand(DeleteLogGroupCommand);
+  });
+
+  it.each<{ tags: Record<string, string>; case: string }>([
+    { tags: { 'goober:keep': 'true' }, case: 'protection tag' },
+    {
+      tags: { 'goober:keep-until': 'next tuesday' },
+      case: 'invalid keep-until tag',
+    },
+  ])('skips the deletion of log groups with a $case', async ({ tags }) => {
+    // Prepare
+    mockTags(tags);
+
+    // Act
+    const result = await handler(event, context, () => {});
+
+    // Assess
+    expect(result).toEqual({ batchItemFailures: [] });
+    expect(cwClient).not.toReceiveCommand(DeleteLogGroupCommand);
+    expect(schedulerClient).not.toReceiveCommand(CreateScheduleCommand);
+  });
+
+  it('deletes log groups whose protection tag has another value', async () => {
+    // Prepare
+    mockTags({ 'goober:keep': 'false' });
+    cwClient.on(DeleteLogGroupCommand).resolves({});
+
+    // Act
+    await handler(event, context, () => {});
+
+    // Assess
+    expect(cwClient).toReceiveCommand(DeleteLogGroupCommand);
+  });
+
+  it.each([
+    { keepUntil: '2999-01-01', expected: 'at(2999-01-02T00:00:00)' },
+    { keepUntil: '2999-01-01T08:30:00Z', expected: 'at(2999-01-01T08:30:00)' },
+  ])(
+    'postpones the deletion until $keepUntil',
+    async ({ keepUntil, expected }) => {
+      // Prepare
+      mockTags({ 'goober:keep-until': keepUntil });
+      schedulerClient.on(CreateScheduleCommand).resolves({});
+
+      // Act
+      const result = await handler(event, context, () => {});
+
+      // Assess
+      expect(result).toEqual({ batchItemFailures: [] });
+      expect(cwClient).not.toReceiveCommand(DeleteLogGroupCommand);
+      expect(schedulerClient).toReceiveCommandWith(CreateScheduleCommand, {
+        Name: expect.stringMatching(
+          /^DeleteLogGroup-[0-9a-f]{24}-[0-9a-f]{16}$/
+        ),
+        ScheduleExpression: expected,
+      });
+    }
+  );
+
+  it('deletes log groups whose keep-until date has passed', async () => {
+    // Prepare
+    mockTags({ 'goober:keep-until': '2000-01-01' });
+    cwClient.on(DeleteLogGroupCommand).resolves({});
+
+    // Act
+    await handler(event, context, () => {});
+
+    // Assess
+    expect(cwClient).toReceiveCommand(DeleteLogGroupCommand);
+    expect(schedulerClient).not.toReceiveCommand(CreateScheduleCommand);
+  });
+
+  it('only records log groups of schedules created in dry-run mode', async () => {
+    // Prepare
+    const [record] = event.Records;
+    const dryRunEvent: SQSEvent = {
+      Records: [
+        {
+          ...record,
+          body: JSON.stringify({ ...JSON.parse(record.body), dryRun: true }),
+        },
+      ],
+    };
+    const logSpy = vi.spyOn(console, 'info');
+
+    // Act
+    const result = await handler(dryRunEvent, context, () => {});
+
+    // Assess
+    expect(result).toEqual({ batchItemFailures: [] });
+    expect(cwClient).not.toReceiveCommand(DeleteLogGroupCommand);
+    expect(logSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Dry run, would have deleted log group')
+    );
+    expect(documentClient).toReceiveCommandWith(UpdateCommand, {
+      ExpressionAttributeValues: expect.objectContaining({
+        ':state': 'SKIPPED',
+        ':hold': 'dryRun',
+      }),
+    });
+  });
+
+  describe('active log groups', () => {
+    const buildEvent = (body: Record<string, unknown>): SQSEvent => ({
+      Records: [
+        {
+          ...event.Records[0],
+          body: JSON.stringify({
+            logGroupName: '/aws/lambda/Logger-20-x86-test-group',
+            awsRegion: 'eu-west-1',
+            ...body,
+          }),
+        },
+      ],
+    });
+    const mockLastEvent = (hoursAgo: number) =>
+      cwClient.on(DescribeLogStreamsCommand).resolves({
+        logStreams: [{ lastEventTimestamp: Date.now() - hoursAgo * 3_600_000 }],
+      });
+
+    it('postpones the deletion of log groups still receiving events', async () => {
+      // Prepare
+      mockLastEvent(1);
+      schedulerClient.on(CreateScheduleCommand).resolves({});
+
+      // Act
+      const result = await handler(
+        buildEvent({ correlationId: 'creation-event-id' }),
+        context,
+        () => {}
+      );
+
+      // Assess
+      expect(result).toEqual({ batchItemFailures: [] });
+      expect(cwClient).toReceiveCommandWith(DescribeLogStreamsCommand, {
+        logGroupName: '/aws/lambda/Logger-20-x86-test-group',
+        orderBy: 'LastEventTime',
+        descending: true,
+        limit: 1,
+      });
+      expect(schedulerClient).toReceiveCommandWith(CreateScheduleCommand, {
+        Target: expect.objectContaining({
+          Input: JSON.stringify({
+            logGroupName: '/aws/lambda/Logger-20-x86-test-group',
+            awsRegion: 'eu-west-1',
+            postponeCount: 1,
+            correlationId: 'creation-event-id',
+          }),
+        }),
+      });
+      expect(cwClient).not.toReceiveCommand(DeleteLogGroupCommand);
+    });
+
+    it('deletes log groups that were quiet for the whole period', async () => {
+      // Prepare
+      mockLastEvent(25);
+      cwClient.on(DeleteLogGroupCommand).resolves({});
+
+      // Act
+      await handler(buildEvent({}), context, () => {});
+
+      // Assess
+      expect(cwClient).toReceiveCommand(DeleteLogGroupCommand);
+      expect(schedulerClient).not.toReceiveCommand(CreateScheduleCommand);
+    });
+
+    it('deletes active log groups once postponed too many times', async () => {
+      // Prepare
+      mockLastEvent(1);
+      cwClient.on(DeleteLogGroupCommand).resolves({});
+
+      // Act
+      await handler(buildEvent({ postponeCount: 2 }), context, () => {});
+
+      // Assess
+      expect(cwClient).toReceiveCommand(DeleteLogGroupCommand);
+      expect(schedulerClient).not.toReceiveCommand(CreateScheduleCommand);
+    });
+  });
+
+  describe('archive rules', () => {
+    const logGroupName = '/aws/lambda/Logger-20-x86-test-group';
+    const buildArchiveEvent = (body: Record<string, unknown>): SQSEvent => ({
+      Records: [
+        {
+          ...event.Records[0],
+          body: JSON.stringify({
+            logGroupName,
+            awsRegion: 'eu-west-1',
+            ruleName: 'evidence',
+            ...body,
+          }),
+        },
+      ],
+    });
+
+    beforeEach(() => {
+      sqsClient.on(SendMessageCommand).resolves({});
+    });
+
+    it('starts exporting the log group and checks on it later', async () => {
+      // Prepare
+      cwClient.on(CreateExportTaskCommand).resolves({ taskId: 'task-1' });
+
+      // Act
+      const result = await handler(buildArchiveEvent({}), context, () => {});
+
+      // Assess
+      expect(result).toEqual({ batchItemFailures: [] });
+      expect(cwClient).toReceiveCommandWith(CreateExportTaskCommand, {
+        logGroupName,
+        destination: 'goober-archive-bucket',
+        destinationPrefix: `eu-west-1/aws/lambda/Logger-20-x86-test-group/${Date.parse('2024-10-10T13:26:07Z')}`,
+      });
+      expect(sqsClient).toReceiveCommandWith(SendMessageCommand, {
+        QueueUrl:
+          'https://sqs.eu-west-1.amazonaws.com/123456789023/deletion-queue',
+        MessageBody: JSON.stringify({
+          logGroupName,
+          awsRegion: 'eu-west-1',
+          ruleName: 'evidence',
+          exportTaskId: 'task-1',
+        }),
+        DelaySeconds: 60,
+      });
+      expect(cwClient).not.toReceiveCommand(DeleteLogGroupCommand);
+    });
+
+    it('retries later when another export task is running', async () => {
+      // Prepare
+      cwClient.on(CreateExportTaskCommand).rejects(
+        new LimitExceededException({
+          message: 'Resource limit exceeded.',
+          $metadata: {},
+        })
+      );
+
+      // Act
+      const result = await handler(buildArchiveEvent({}), context, () => {});
+
+      // Assess
+      expect(result).toEqual({ batchItemFailures: [] });
+      expect(sqsClient).toReceiveCommandWith(SendMessageCommand, {
+        MessageBody: JSON.stringify({
+          logGroupName,
+          awsRegion: 'eu-west-1',
+          ruleName: 'evidence',
+        }),
+        DelaySeconds: 300,
+      });
+      expect(cwClient).not.toReceiveCommand(DeleteLogGroupCommand);
+    });
+
+    it('checks on the export task again while it runs', async () => {
+      // Prepare
+      cwClient
+        .on(DescribeExportTasksCommand)
+        .resolves({ exportTasks: [{ status: { code: 'RUNNING' } }] });
+
+      // Act
+      await handler(
+        buildArchiveEvent({ exportTaskId: 'task-1' }),
+        context,
+        () => {}
+      );
+
+      // Assess
+      expect(cwClient).toReceiveCommandWith(DescribeExportTasksCommand, {
+        taskId: 'task-1',
+      });
+      expect(sqsClient).toReceiveCommandWith(SendMessageCommand, {
+        DelaySeconds: 60,
+      });
+      expect(cwClient).not.toReceiveCommand(CreateExportTaskCommand);
+      expect(cwClient).not.toReceiveCommand(DeleteLogGroupCommand);
+    });
+
+    it('deletes the log group once the export completed', async () => {
+      // Prepare
+      cwClient
+        .on(DescribeExportTasksCommand)
+        .resolves({ exportTasks: [{ status: { code: 'COMPLETED' } }] })
+        .on(DeleteLogGroupCommand)
+        .resolves({});
+
+      // Act
+      const result = await handler(
+        buildArchiveEvent({ exportTaskId: 'task-1' }),
+        context,
+        () => {}
+      );
+
+      // Assess
+      expect(result).toEqual({ batchItemFailures: [] });
+      expect(cwClient).toReceiveCommandWith(DeleteLogGroupCommand, {
+        logGroupName,
+      });
+      expect(sqsClient).not.toReceiveCommand(SendMessageCommand);
+    });
+
+    it('archives the log group by the action of its schedule after the rule was renamed', async () => {
+      // Prepare
+      cwClient.on(CreateExportTaskCommand).resolves({ taskId: 'task-1' });
+
+      // Act
+      const result = await handler(
+        buildArchiveEvent({ ruleName: 'old-evidence', ruleAction: 'archive' }),
+        context,
+        () => {}
+      );
+
+      // Assess
+      expect(result).toEqual({ batchItemFailures: [] });
+      expect(cwClient).toReceiveCommand(CreateExportTaskCommand);
+      expect(cwClient).not.toReceiveCommand(DeleteLogGroupCommand);
+    });
+
+    it('keeps the log group when the rule of a deletion without action no longer exists', async () => {
+      // Act
+      const result = await handler(
+        buildArchiveEvent({ ruleName: 'removed-evidence' }),
+        context,
+        () => {}
+      );
+
+      // Assess
+      expect(result).toEqual({ batchItemFailures: [] });
+      expect(cwClient).not.toReceiveCommand(CreateExportTaskCommand);
+      expect(cwClient).not.toReceiveCommand(DeleteLogGroupCommand);
+      expect(documentClient).toReceiveCommandWith(UpdateCommand, {
+        ExpressionAttributeValues: expect.objectContaining({
+          ':state': 'SKIPPED',
+          ':reason':
+            'Cleanup rule removed-evidence no longer exists, the log group may have had to be archived',
+        }),
+      });
+    });
+
+    it('keeps the log group when the export failed', async () => {
+      // Prepare
+      cwClient
+        .on(DescribeExportTasksCommand)
+        .resolves({ exportTasks: [{ status: { code: 'FAILED' } }] });
+
+      // Act & Assess
+      await expect(
+        handler(
+          buildArchiveEvent({ exportTaskId: 'task-1' }),
+          context,
+          () => {}
+        )
+      ).rejects.toThrow(FullBatchFailureError);
+      expect(cwClient).not.toReceiveCommand(DeleteLogGroupCommand);
+    });
+  });
 });
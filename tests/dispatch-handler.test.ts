@@ -0,0 +1,100 @@
+import { SendMessageCommand, SQSClient } from '@aws-sdk/client-sqs';
+import {
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  QueryCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { handler } from '../src/dispatch-handler.ts';
+import { context } from './helpers.ts';
+
+vi.hoisted(() => {
+  process.env.POWERTOOLS_DEV = 'true';
+  process.env.AWS_REGION = 'eu-west-1';
+  process.env.SCHEDULE_TABLE_NAME = 'CWLogsGarbageGoober-deletion-schedules';
+  process.env.SCHEDULE_TABLE_DUE_INDEX_NAME = 'due';
+  process.env.DELETION_QUEUE_URL =
+    'https://sqs.eu-west-1.amazonaws.com/123456789023/deletion-queue';
+});
+
+describe('dispatch-handler', () => {
+  const documentClient = mockClient(DynamoDBDocumentClient);
+  const sqsClient = mockClient(SQSClient);
+
+  const dueItem = {
+    pk: 'DeleteLogGroup-0123456789abcdef01234567-',
+    scheduleName: 'DeleteLogGroup-0123456789abcdef01234567-0123456789abcdef',
+    logGroupName: '/aws/lambda/Metrics-20-x86-132f7',
+    awsRegion: 'eu-west-1',
+    ruleName: 'metrics',
+    correlationId: '03c28527-e1bf-4cb3-858c-9e83a06683ff',
+    status: 'PENDING',
+    dueAt: Date.parse('2024-10-18T13:26:07Z'),
+  };
+
+  afterEach(() => {
+    documentClient.reset();
+    sqsClient.reset();
+  });
+
+  it('sends the due log groups to the deletion queue', async () => {
+    // Prepare
+    documentClient
+      .on(QueryCommand)
+      .resolves({ Items: [dueItem] })
+      .on(DeleteCommand)
+      .resolves({});
+    sqsClient.on(SendMessageCommand).resolves({});
+
+    // Act
+    const result = await handler({}, context);
+
+    // Assess
+    expect(result).toEqual({ dispatched: 1 });
+    expect(documentClient).toReceiveCommandWith(QueryCommand, {
+      TableName: 'CWLogsGarbageGoober-deletion-schedules',
+      IndexName: 'due',
+      ExpressionAttributeValues: {
+        ':status': 'PENDING',
+        ':now': expect.any(Number),
+      },
+    });
+    expect(sqsClient).toReceiveCommandWith(SendMessageCommand, {
+      QueueUrl:
+        'https://sqs.eu-west-1.amazonaws.com/123456789023/deletion-queue',
+      MessageBody: JSON.stringify({
+        logGroupName: dueItem.logGroupName,
+        awsRegion: 'eu-west-1',
+        ruleName: 'metrics',
+        correlationId: dueItem.correlationId,
+      }),
+    });
+    expect(documentClient).toReceiveCommandWith(DeleteCommand, {
+      Key: { pk: dueItem.pk, scheduleName: dueItem.scheduleName },
+      ExpressionAttributeValues: { ':dueAt': dueItem.dueAt },
+    });
+  });
+
+  it('keeps the schedule when it cannot be sent to the deletion queue', async () => {
+    // Prepare
+    documentClient.on(QueryCommand).resolves({ Items: [dueItem] });
+    sqsClient.on(SendMessageCommand).rejects(new Error('Access denied'));
+
+    // Act & Assess
+    await expect(handler({}, context)).rejects.toThrow('Access denied');
+    expect(documentClient).not.toReceiveCommand(DeleteCommand);
+  });
+
+  it('does nothing when no deletion is due', async () => {
+    // Prepare
+    documentClient.on(QueryCommand).resolves({ Items: [] });
+
+    // Act
+    const result = await handler({}, context);
+
+    // Assess
+    expect(result).toEqual({ dispatched: 0 });
+    expect(sqsClient).not.toReceiveCommand(SendMessageCommand);
+  });
+});
@@ -1,15 +1,29 @@
 import {
   CloudWatchLogsClient,
   DescribeLogGroupsCommand,
+  PutRetentionPolicyCommand,
 } from '@aws-sdk/client-cloudwatch-logs';
+import { InvokeCommand, LambdaClient } from '@aws-sdk/client-lambda';
 import {
+  ConflictException,
   CreateScheduleCommand,
+  DeleteScheduleCommand,
+  GetScheduleCommand,
+  ListSchedulesCommand,
+  ResourceNotFoundException,
   SchedulerClient,
+  UpdateScheduleCommand,
 } from '@aws-sdk/client-scheduler';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
 import { mockClient } from 'aws-sdk-client-mock';
-import { afterEach, describe, expect, it, vi } from 'vitest';
-import { handler } from '../src/event-handler.js';
-import { context, getTestEvent, wrapInSQSEvent } from './helpers.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { handler } from '../src/event-handler.ts';
+import { metrics } from '../src/metrics.ts';
+import { context, getTestEvent, wrapInSQSEvent } from './helpers.ts';
 
 vi.hoisted(() => {
   process.env.POWERTOOLS_DEV = 'true';
@@ -18,12 +32,48 @@ vi.hoisted(() => {
     'arn:aws:sqs:eu-west-1:123456789023:deletion-queue';
   process.env.SCHEDULER_ROLE_ARN =
     'arn:aws:iam::123456789023:role/publish-to-queue-role';
-  process.env.DELETION_DELAY_DAYS = '1';
+  process.env.SCHEDULE_GROUP_NAME = 'CWLogsGarbageGoober-deletions';
+  process.env.NEVER_EXPIRE_DELAY_DAYS = '3';
+  process.env.NOTIFIER_FUNCTION_NAME = 'slack-workflow-notifier';
+  process.env.POWERTOOLS_METRICS_NAMESPACE = 'CWLogsGarbageGoober';
+  process.env.LEDGER_TABLE_NAME = 'CWLogsGarbageGoober-log-group-ledger';
+  process.env.HUB_ACCOUNT_ID = '123456789023';
+  process.env.SPOKE_ROLE_NAME = 'CWLogsGarbageGoober-spoke-role';
+  process.env.ARCHIVE_BUCKET_NAME = 'goober-archive-bucket';
+  process.env.CLEANUP_RULES = JSON.stringify([
+    {
+      name: 'load-tests',
+      includePatterns: ['/aws/lambda/Logger-*-LoadTest'],
+      deletionDelayDays: 14,
+    },
+    {
+      name: 'keep-tracer',
+      includePatterns: ['/aws/lambda/Tracer-*'],
+      deletionDelayDays: 0,
+      action: 'ignore',
+    },
+    {
+      name: 'archived',
+      includePatterns: ['/aws/lambda/Archived-*'],
+      deletionDelayDays: 1,
+      action: 'archive',
+    },
+    {
+      name: 'e2e',
+      logGroupPatterns: ['/aws/lambda/Logger-'],
+      includePatterns: ['/aws/lambda/Metrics-*-Canary'],
+      excludePatterns: ['*-Basic-Skip-*'],
+      requiredTags: { Service: 'Powertools for AWS e2e tests' },
+      deletionDelayDays: 1,
+    },
+  ]);
 });
 
 describe('cw-logs-event-handler', () => {
   const cwClient = mockClient(CloudWatchLogsClient);
   const schedulerClient = mockClient(SchedulerClient);
+  const lambdaClient = mockClient(LambdaClient);
+  const documentClient = mockClient(DynamoDBDocumentClient);
 
   const eventBridgeEvent = getTestEvent({
     eventsPath: '.',
@@ -31,9 +81,16 @@ describe('cw-logs-event-handler', () => {
   });
   const sqsEvent = wrapInSQSEvent(eventBridgeEvent);
 
+  beforeEach(() => {
+    documentClient.on(GetCommand).resolves({});
+  });
+
   afterEach(() => {
     cwClient.reset();
     schedulerClient.reset();
+    lambdaClient.reset();
+    documentClient.reset();
+    vi.unstubAllEnvs();
   });
 
   it('returns batch item failures when the log group cannot be described or found', async () => {
@@ -70,6 +127,7 @@ describe('cw-logs-event-handler', () => {
           logGroupName:
             '/aws/lambda/Logger-20-x86-132f7-Basic-Middy-BasicFeatures',
           retentionInDays: 7,
+          creationTime: Date.parse('2024-10-10T13:26:07Z'),
           arn: 'arn:aws:logs:eu-west-1:123456789023:log-group:/aws/lambda/Logger-20-x86-132f7-Basic-Middy-BasicFeatures',
         },
       ],
@@ -85,6 +143,7 @@ describe('cw-logs-event-handler', () => {
     // Assess
     expect(result.batchItemFailures).toHaveLength(0);
     expect(schedulerClient).toReceiveCommandWith(CreateScheduleCommand, {
+      GroupName: 'CWLogsGarbageGoober-deletions',
       Target: {
         Arn: 'arn:aws:sqs:eu-west-1:123456789023:deletion-queue',
         RoleArn: 'arn:aws:iam::123456789023:role/publish-to-queue-role',
@@ -96,13 +155,59 @@ describe('cw-logs-event-handler', () => {
     });
   });
 
-  it('creates a deletion schedule for a log group without retention (defaults to 0)', async () => {
+  it('records the detection and the schedule of the log group in the ledger', async () => {
     // Prepare
     cwClient.on(DescribeLogGroupsCommand).resolves({
       logGroups: [
         {
           logGroupName:
             '/aws/lambda/Logger-20-x86-132f7-Basic-Middy-BasicFeatures',
+          retentionInDays: 7,
+          storedBytes: 1024,
+          creationTime: Date.parse('2024-10-10T13:26:07Z'),
+        },
+      ],
+    });
+    schedulerClient.on(CreateScheduleCommand).resolves({});
+
+    // Act
+    await handler(sqsEvent, context);
+
+    // Assess
+    expect(documentClient).toReceiveCommandTimes(UpdateCommand, 2);
+    expect(documentClient).toReceiveNthCommandWith(UpdateCommand, 1, {
+      TableName: 'CWLogsGarbageGoober-log-group-ledger',
+      Key: {
+        logGroupName:
+          '/aws/lambda/Logger-20-x86-132f7-Basic-Middy-BasicFeatures',
+        awsRegion: 'eu-west-1',
+      },
+      ExpressionAttributeValues: expect.objectContaining({
+        ':state': 'DETECTED',
+        ':retentionInDays': 7,
+        ':storedBytes': 1024,
+        ':ruleName': 'e2e',
+        ':correlationId': '03c28527-e1bf-4cb3-858c-9e83a06683ff',
+      }),
+    });
+    // 7 days retention + 1 day delay of the e2e rule
+    expect(documentClient).toReceiveNthCommandWith(UpdateCommand, 2, {
+      ExpressionAttributeValues: expect.objectContaining({
+        ':state': 'SCHEDULED',
+        ':reason': 'Deletion due 8 days after creation',
+        ':dueAt': Date.parse('2024-10-18T13:26:07Z'),
+      }),
+    });
+  });
+
+  it('creates a deletion schedule for a log group without retention (never expire)', async () => {
+    // Prepare
+    cwClient.on(DescribeLogGroupsCommand).resolves({
+      logGroups: [
+        {
+          logGroupName:
+            '/aws/lambda/Logger-20-x86-132f7-Basic-Middy-BasicFeatures',
+          creationTime: Date.parse('2024-10-10T13:26:07Z'),
           arn: 'arn:aws:logs:eu-west-1:123456789023:log-group:/aws/lambda/Logger-20-x86-132f7-Basic-Middy-BasicFeatures',
         },
       ],
@@ -133,6 +238,7 @@ describe('cw-logs-event-handler', () => {
           logGroupName:
             '/aws/lambda/Logger-20-x86-132f7-Basic-Middy-BasicFeatures',
           retentionInDays: 14,
+          creationTime: Date.parse('2024-10-10T13:26:07Z'),
           arn: 'arn:aws:logs:eu-west-1:123456789023:log-group:/aws/lambda/Logger-20-x86-132f7-Basic-Middy-BasicFeatures',
         },
       ],
@@ -153,6 +259,48 @@ describe('cw-logs-event-handler', () => {
     });
   });
 
+  it('schedules the deletion of a log group of a member account', async () => {
+    // Prepare
+    cwClient.on(DescribeLogGroupsCommand).resolves({
+      logGroups: [
+        {
+          logGroupName:
+            '/aws/lambda/Logger-20-x86-132f7-Basic-Middy-BasicFeatures',
+          retentionInDays: 7,
+          creationTime: Date.parse('2024-10-10T13:26:07Z'),
+        },
+      ],
+    });
+    schedulerClient.on(CreateScheduleCommand).resolves({});
+
+    // Act
+    const result = await handler(
+      wrapInSQSEvent({
+        ...eventBridgeEvent,
+        account: '210987654321',
+        detail: {
+          ...(eventBridgeEvent.detail as Record<string, unknown>),
+          recipientAccountId: '210987654321',
+        },
+      }),
+      context
+    );
+
+    // Assess
+    expect(result.batchItemFailures).toHaveLength(0);
+    const [{ args }] = schedulerClient.commandCalls(CreateScheduleCommand);
+    expect(JSON.parse(args[0].input.Target?.Input ?? '{}')).toEqual(
+      expect.objectContaining({ accountId: '210987654321' })
+    );
+    expect(documentClient).toReceiveCommandWith(UpdateCommand, {
+      Key: {
+        logGroupName:
+          '/aws/lambda/Logger-20-x86-132f7-Basic-Middy-BasicFeatures',
+        awsRegion: '210987654321:eu-west-1',
+      },
+    });
+  });
+
   it('finds exact log group match when multiple with similar prefix exist', async () => {
     // Prepare - return multiple log groups with similar prefixes
     cwClient.on(DescribeLogGroupsCommand).resolves({
@@ -167,6 +315,7 @@ describe('cw-logs-event-handler', () => {
           logGroupName:
             '/aws/lambda/Logger-20-x86-132f7-Basic-Middy-BasicFeatures',
           retentionInDays: 7,
+          creationTime: Date.parse('2024-10-10T13:26:07Z'),
           arn: 'arn:aws:logs:eu-west-1:123456789023:log-group:/aws/lambda/Logger-20-x86-132f7-Basic-Middy-BasicFeatures',
         },
       ],
@@ -207,4 +356,803 @@ describe('cw-logs-event-handler', () => {
     expect(result.batchItemFailures).toHaveLength(1);
     expect(result.batchItemFailures[0].itemIdentifier).toBe('test-message-id');
   });
+
+  it('derives a deterministic schedule name from the log group', async () => {
+    // Prepare
+    cwClient.on(DescribeLogGroupsCommand).resolves({
+      logGroups: [
+        {
+          logGroupName:
+            '/aws/lambda/Logger-20-x86-132f7-Basic-Middy-BasicFeatures',
+          creationTime: Date.parse('2024-10-10T13:26:07.123Z'),
+        },
+      ],
+    });
+    schedulerClient.on(CreateScheduleCommand).resolves({});
+
+    // Act
+    await handler(sqsEvent, context);
+    await handler(sqsEvent, context);
+
+    // Assess - the same event always targets the same schedule
+    const names = schedulerClient
+      .commandCalls(CreateScheduleCommand)
+      .map(({ args }) => args[0].input.Name);
+    expect(names).toHaveLength(2);
+    expect(names[0]).toMatch(/^DeleteLogGroup-[0-9a-f]{24}-[0-9a-f]{16}$/);
+    expect(names[1]).toBe(names[0]);
+    expect(schedulerClient).toReceiveCommandWith(CreateScheduleCommand, {
+      ScheduleExpression: 'at(2024-10-13T13:26:07)',
+    });
+  });
+
+  it('updates the schedule when it already exists (duplicate delivery)', async () => {
+    // Prepare
+    cwClient.on(DescribeLogGroupsCommand).resolves({
+      logGroups: [
+        {
+          logGroupName:
+            '/aws/lambda/Logger-20-x86-132f7-Basic-Middy-BasicFeatures',
+          retentionInDays: 7,
+          creationTime: Date.parse('2024-10-10T13:26:07Z'),
+        },
+      ],
+    });
+    schedulerClient
+      .on(CreateScheduleCommand)
+      .rejects(
+        new ConflictException({
+          message: 'Schedule already exists',
+          Message: 'Schedule already exists',
+          $metadata: {},
+        })
+      )
+      .on(UpdateScheduleCommand)
+      .resolves({});
+
+    // Act
+    const result = await handler(sqsEvent, context);
+
+    // Assess
+    expect(result.batchItemFailures).toHaveLength(0);
+    const [createCall] = schedulerClient.commandCalls(CreateScheduleCommand);
+    expect(schedulerClient).toReceiveCommandWith(UpdateScheduleCommand, {
+      Name: createCall.args[0].input.Name,
+      ScheduleExpression: 'at(2024-10-18T13:26:07)',
+    });
+  });
+
+  it('returns batch item failures when the schedule cannot be created', async () => {
+    // Prepare
+    cwClient.on(DescribeLogGroupsCommand).resolves({
+      logGroups: [
+        {
+          logGroupName:
+            '/aws/lambda/Logger-20-x86-132f7-Basic-Middy-BasicFeatures',
+          creationTime: Date.parse('2024-10-10T13:26:07Z'),
+        },
+      ],
+    });
+    schedulerClient
+      .on(CreateScheduleCommand)
+      .rejects(new Error('Access denied'));
+
+    // Act
+    const result = await handler(sqsEvent, context);
+
+    // Assess
+    expect(result.batchItemFailures).toHaveLength(1);
+    expect(schedulerClient).not.toReceiveCommand(UpdateScheduleCommand);
+  });
+
+  describe('cleanup rules', () => {
+    const buildCreateEvent = (
+      logGroupName: string,
+      tags: Record<string, string> = {
+        Service: 'Powertools for AWS e2e tests',
+      }
+    ) =>
+      wrapInSQSEvent({
+        ...eventBridgeEvent,
+        detail: {
+          ...(eventBridgeEvent.detail as Record<string, unknown>),
+          requestParameters: { logGroupName, tags },
+        },
+      });
+
+    it.each([
+      '/aws/lambda/Logger-20-x86-132f7-Basic-Skip-Me',
+      '/aws/lambda/Idempotency-20-x86-132f7',
+      '/aws/lambda/Metrics-20-x86-132f7-Canary-Extra',
+    ])(
+      'acknowledges and counts log groups that do not match (%s)',
+      async (logGroupName) => {
+        // Prepare
+        const addMetricSpy = vi.spyOn(metrics, 'addMetric');
+
+        // Act
+        const result = await handler(buildCreateEvent(logGroupName), context);
+
+        // Assess
+        expect(result.batchItemFailures).toHaveLength(0);
+        expect(cwClient).not.toReceiveCommand(DescribeLogGroupsCommand);
+        expect(schedulerClient).not.toReceiveCommand(CreateScheduleCommand);
+        expect(addMetricSpy).toHaveBeenCalledWith(
+          'LogGroupsNotMatched',
+          'Count',
+          1
+        );
+      }
+    );
+
+    it('schedules log groups matching an include pattern', async () => {
+      // Prepare
+      const logGroupName = '/aws/lambda/Metrics-20-x86-132f7-Canary';
+      cwClient.on(DescribeLogGroupsCommand).resolves({
+        logGroups: [
+          { logGroupName, creationTime: Date.parse('2024-10-10T13:26:07Z') },
+        ],
+      });
+      schedulerClient.on(CreateScheduleCommand).resolves({});
+
+      // Act
+      const result = await handler(buildCreateEvent(logGroupName), context);
+
+      // Assess
+      expect(result.batchItemFailures).toHaveLength(0);
+      expect(schedulerClient).toReceiveCommand(CreateScheduleCommand);
+    });
+
+    it.each([
+      {
+        case: 'member account',
+        detail: { recipientAccountId: '210987654321' },
+        reason:
+          "Log groups of member account 210987654321 can't be archived, only the ones of the account of the archive bucket",
+      },
+      {
+        case: 'other region',
+        detail: { awsRegion: 'us-east-1' },
+        reason:
+          'Log groups can only be archived in eu-west-1, the region of the archive bucket',
+      },
+    ])(
+      'skips log groups of an archive rule that cannot be archived ($case)',
+      async ({ detail, reason }) => {
+        // Prepare
+        const logGroupName = '/aws/lambda/Archived-20-x86-132f7';
+        cwClient.on(DescribeLogGroupsCommand).resolves({
+          logGroups: [
+            {
+              logGroupName,
+              retentionInDays: 7,
+              creationTime: Date.parse('2024-10-10T13:26:07Z'),
+            },
+          ],
+        });
+
+        // Act
+        const result = await handler(
+          wrapInSQSEvent({
+            ...eventBridgeEvent,
+            detail: {
+              ...(eventBridgeEvent.detail as Record<string, unknown>),
+              requestParameters: { logGroupName },
+              ...detail,
+            },
+          }),
+          context
+        );
+
+        // Assess
+        expect(result.batchItemFailures).toHaveLength(0);
+        expect(schedulerClient).not.toReceiveCommand(CreateScheduleCommand);
+        expect(documentClient).toReceiveCommandWith(UpdateCommand, {
+          ExpressionAttributeValues: expect.objectContaining({
+            ':state': 'SKIPPED',
+            ':reason': reason,
+          }),
+        });
+      }
+    );
+
+    it('skips log groups of an archive rule when the archive bucket is not deployed', async () => {
+      // Prepare - the bucket name is read when the modules are loaded
+      vi.resetModules();
+      vi.stubEnv('ARCHIVE_BUCKET_NAME', '');
+      const { handler } = await import('../src/event-handler.ts');
+      const logGroupName = '/aws/lambda/Archived-20-x86-132f7';
+      cwClient.on(DescribeLogGroupsCommand).resolves({
+        logGroups: [
+          {
+            logGroupName,
+            retentionInDays: 7,
+            creationTime: Date.parse('2024-10-10T13:26:07Z'),
+          },
+        ],
+      });
+
+      // Act
+      const result = await handler(buildCreateEvent(logGroupName, {}), context);
+
+      // Assess
+      expect(result.batchItemFailures).toHaveLength(0);
+      expect(schedulerClient).not.toReceiveCommand(CreateScheduleCommand);
+      expect(documentClient).toReceiveCommandWith(UpdateCommand, {
+        ExpressionAttributeValues: expect.objectContaining({
+          ':state': 'SKIPPED',
+          ':reason':
+            'Archive bucket is not configured, deploy the stack with an archive rule to create it',
+        }),
+      });
+    });
+
+    it('does not match log groups missing the required tags', async () => {
+      // Prepare
+      const addMetricSpy = vi.spyOn(metrics, 'addMetric');
+
+      // Act
+      const result = await handler(
+        buildCreateEvent(
+          '/aws/lambda/Logger-20-x86-132f7-Basic-Middy-BasicFeatures',
+          { Service: 'Something else' }
+        ),
+        context
+      );
+
+      // Assess
+      expect(result.batchItemFailures).toHaveLength(0);
+      expect(schedulerClient).not.toReceiveCommand(CreateScheduleCommand);
+      expect(addMetricSpy).toHaveBeenCalledWith(
+        'LogGroupsNotMatched',
+        'Count',
+        1
+      );
+    });
+
+    it('applies the delay of the first matching rule and stamps its name into the schedule', async () => {
+      // Prepare
+      const logGroupName = '/aws/lambda/Logger-20-x86-132f7-LoadTest';
+      cwClient.on(DescribeLogGroupsCommand).resolves({
+        logGroups: [
+          {
+            logGroupName,
+            retentionInDays: 7,
+            creationTime: Date.parse('2024-10-10T13:26:07Z'),
+          },
+        ],
+      });
+      schedulerClient.on(CreateScheduleCommand).resolves({});
+
+      // Act
+      const result = await handler(buildCreateEvent(logGroupName), context);
+
+      // Assess - 7 days retention + 14 days delay of the load-tests rule
+      expect(result.batchItemFailures).toHaveLength(0);
+      expect(schedulerClient).toReceiveCommandWith(CreateScheduleCommand, {
+        ScheduleExpression: 'at(2024-10-31T13:26:07)',
+        Target: expect.objectContaining({
+          Input: JSON.stringify({
+            logGroupName,
+            awsRegion: 'eu-west-1',
+            ruleName: 'load-tests',
+            ruleAction: 'delete',
+            correlationId: '03c28527-e1bf-4cb3-858c-9e83a06683ff',
+          }),
+        }),
+      });
+    });
+
+    it('acknowledges and counts log groups matching an ignore rule', async () => {
+      // Prepare
+      const addMetricSpy = vi.spyOn(metrics, 'addMetric');
+
+      // Act
+      const result = await handler(
+        buildCreateEvent('/aws/lambda/Tracer-20-x86-132f7'),
+        context
+      );
+
+      // Assess
+      expect(result.batchItemFailures).toHaveLength(0);
+      expect(cwClient).not.toReceiveCommand(DescribeLogGroupsCommand);
+      expect(schedulerClient).not.toReceiveCommand(CreateScheduleCommand);
+      expect(addMetricSpy).toHaveBeenCalledWith('LogGroupsIgnored', 'Count', 1);
+    });
+  });
+
+  describe('retention policy changes', () => {
+    const logGroupName =
+      '/aws/lambda/Logger-20-x86-132f7-Basic-Middy-BasicFeatures';
+    const buildRetentionEvent = (eventName: string) =>
+      wrapInSQSEvent({
+        ...eventBridgeEvent,
+        detail: {
+          ...(eventBridgeEvent.detail as Record<string, unknown>),
+          eventName,
+          requestParameters: { logGroupName, retentionInDays: 14 },
+        },
+      });
+    const existingSchedule = {
+      Target: {
+        Arn: 'arn:aws:sqs:eu-west-1:123456789023:deletion-queue',
+        RoleArn: 'arn:aws:iam::123456789023:role/publish-to-queue-role',
+        Input: JSON.stringify({
+          logGroupName,
+          awsRegion: 'eu-west-1',
+          ruleName: 'e2e',
+        }),
+      },
+    };
+
+    it('updates the existing schedule when the retention policy changes', async () => {
+      // Prepare
+      cwClient.on(DescribeLogGroupsCommand).resolves({
+        logGroups: [
+          {
+            logGroupName,
+            retentionInDays: 14,
+            creationTime: Date.parse('2024-10-10T13:26:07Z'),
+          },
+        ],
+      });
+      schedulerClient.on(GetScheduleCommand).resolves(existingSchedule);
+
+      // Act
+      const result = await handler(
+        buildRetentionEvent('PutRetentionPolicy'),
+        context
+      );
+
+      // Assess - 14 days retention + 1 day delay from creation time
+      expect(result.batchItemFailures).toHaveLength(0);
+      const [getCall] = schedulerClient.commandCalls(GetScheduleCommand);
+      expect(getCall.args[0].input.Name).toMatch(
+        /^DeleteLogGroup-[0-9a-f]{24}-[0-9a-f]{16}$/
+      );
+      expect(schedulerClient).toReceiveCommandWith(UpdateScheduleCommand, {
+        Name: getCall.args[0].input.Name,
+        ScheduleExpression: 'at(2024-10-25T13:26:07)',
+      });
+      expect(schedulerClient).not.toReceiveCommand(CreateScheduleCommand);
+    });
+
+    it('keeps the correlation id of the creation event when updating the schedule', async () => {
+      // Prepare
+      cwClient.on(DescribeLogGroupsCommand).resolves({
+        logGroups: [
+          {
+            logGroupName,
+            retentionInDays: 14,
+            creationTime: Date.parse('2024-10-10T13:26:07Z'),
+          },
+        ],
+      });
+      schedulerClient.on(GetScheduleCommand).resolves({
+        Target: {
+          ...existingSchedule.Target,
+          Input: JSON.stringify({
+            logGroupName,
+            awsRegion: 'eu-west-1',
+            ruleName: 'e2e',
+            correlationId: 'creation-event-id',
+          }),
+        },
+      });
+
+      // Act
+      await handler(buildRetentionEvent('PutRetentionPolicy'), context);
+
+      // Assess
+      expect(schedulerClient).toReceiveCommandWith(UpdateScheduleCommand, {
+        Target: expect.objectContaining({
+          Input: JSON.stringify({
+            logGroupName,
+            awsRegion: 'eu-west-1',
+            ruleName: 'e2e',
+            ruleAction: 'delete',
+            correlationId: 'creation-event-id',
+          }),
+        }),
+      });
+    });
+
+    it('applies the never-expire policy when the retention policy is deleted', async () => {
+      // Prepare
+      cwClient.on(DescribeLogGroupsCommand).resolves({
+        logGroups: [
+          { logGroupName, creationTime: Date.parse('2024-10-10T13:26:07Z') },
+        ],
+      });
+      schedulerClient.on(GetScheduleCommand).resolves(existingSchedule);
+
+      // Act
+      const result = await handler(
+        buildRetentionEvent('DeleteRetentionPolicy'),
+        context
+      );
+
+      // Assess
+      expect(result.batchItemFailures).toHaveLength(0);
+      expect(schedulerClient).toReceiveCommandWith(UpdateScheduleCommand, {
+        ScheduleExpression: 'at(2024-10-13T13:26:07)',
+      });
+    });
+
+    it('skips the event when the log group has no deletion schedule', async () => {
+      // Prepare
+      cwClient.on(DescribeLogGroupsCommand).resolves({
+        logGroups: [
+          { logGroupName, creationTime: Date.parse('2024-10-10T13:26:07Z') },
+        ],
+      });
+      schedulerClient.on(GetScheduleCommand).rejects(
+        new ResourceNotFoundException({
+          message: 'Schedule does not exist',
+          Message: 'Schedule does not exist',
+          $metadata: {},
+        })
+      );
+
+      // Act
+      const result = await handler(
+        buildRetentionEvent('PutRetentionPolicy'),
+        context
+      );
+
+      // Assess
+      expect(result.batchItemFailures).toHaveLength(0);
+      expect(schedulerClient).not.toReceiveCommand(UpdateScheduleCommand);
+    });
+
+    it('skips the event when the rule of the schedule no longer exists', async () => {
+      // Prepare
+      cwClient.on(DescribeLogGroupsCommand).resolves({
+        logGroups: [
+          { logGroupName, creationTime: Date.parse('2024-10-10T13:26:07Z') },
+        ],
+      });
+      schedulerClient.on(GetScheduleCommand).resolves({
+        Target: {
+          ...existingSchedule.Target,
+          Input: JSON.stringify({
+            logGroupName,
+            awsRegion: 'eu-west-1',
+            ruleName: 'removed-rule',
+          }),
+        },
+      });
+
+      // Act
+      const result = await handler(
+        buildRetentionEvent('PutRetentionPolicy'),
+        context
+      );
+
+      // Assess
+      expect(result.batchItemFailures).toHaveLength(0);
+      expect(schedulerClient).not.toReceiveCommand(UpdateScheduleCommand);
+    });
+
+    it('returns batch item failures when the schedule cannot be read', async () => {
+      // Prepare
+      cwClient.on(DescribeLogGroupsCommand).resolves({
+        logGroups: [
+          { logGroupName, creationTime: Date.parse('2024-10-10T13:26:07Z') },
+        ],
+      });
+      schedulerClient
+        .on(GetScheduleCommand)
+        .rejects(new Error('Access denied'));
+
+      // Act
+      const result = await handler(
+        buildRetentionEvent('PutRetentionPolicy'),
+        context
+      );
+
+      // Assess
+      expect(result.batchItemFailures).toHaveLength(1);
+      expect(schedulerClient).not.toReceiveCommand(UpdateScheduleCommand);
+    });
+
+    it('skips the event when the log group was deleted in the meantime', async () => {
+      // Prepare
+      cwClient.on(DescribeLogGroupsCommand).resolves({ logGroups: [] });
+
+      // Act
+      const result = await handler(
+        buildRetentionEvent('PutRetentionPolicy'),
+        context
+      );
+
+      // Assess
+      expect(result.batchItemFailures).toHaveLength(0);
+      expect(schedulerClient).not.toReceiveCommand(GetScheduleCommand);
+      expect(schedulerClient).not.toReceiveCommand(UpdateScheduleCommand);
+    });
+
+    it('returns batch item failures when the creation time is not available', async () => {
+      // Prepare
+      cwClient.on(DescribeLogGroupsCommand).resolves({
+        logGroups: [{ logGroupName, retentionInDays: 14 }],
+      });
+
+      // Act
+      const result = await handler(
+        buildRetentionEvent('PutRetentionPolicy'),
+        context
+      );
+
+      // Assess
+      expect(result.batchItemFailures).toHaveLength(1);
+      expect(schedulerClient).not.toReceiveCommand(UpdateScheduleCommand);
+    });
+  });
+
+  describe('log group deletions', () => {
+    const logGroupName =
+      '/aws/lambda/Logger-20-x86-132f7-Basic-Middy-BasicFeatures';
+    const deleteEvent = wrapInSQSEvent({
+      ...eventBridgeEvent,
+      detail: {
+        ...(eventBridgeEvent.detail as Record<string, unknown>),
+        eventName: 'DeleteLogGroup',
+        requestParameters: { logGroupName },
+      },
+    });
+
+    it('deletes the pending schedules when the log group is deleted', async () => {
+      // Prepare
+      schedulerClient
+        .on(ListSchedulesCommand)
+        .resolves({
+          Schedules: [
+            { Name: 'DeleteLogGroup-abc-0000000000000001' },
+            { Name: 'DeleteLogGroup-abc-0000000000000002' },
+          ],
+        })
+        .on(DeleteScheduleCommand)
+        .resolves({});
+
+      // Act
+      const result = await handler(deleteEvent, context);
+
+      // Assess
+      expect(result.batchItemFailures).toHaveLength(0);
+      expect(schedulerClient).toReceiveCommandWith(ListSchedulesCommand, {
+        GroupName: 'CWLogsGarbageGoober-deletions',
+        NamePrefix: expect.stringMatching(/^DeleteLogGroup-[0-9a-f]{24}-$/),
+      });
+      expect(schedulerClient).toReceiveCommandWith(DeleteScheduleCommand, {
+        Name: 'DeleteLogGroup-abc-0000000000000001',
+        GroupName: 'CWLogsGarbageGoober-deletions',
+      });
+      expect(schedulerClient).toReceiveCommandWith(DeleteScheduleCommand, {
+        Name: 'DeleteLogGroup-abc-0000000000000002',
+      });
+      expect(cwClient).not.toReceiveCommand(DescribeLogGroupsCommand);
+    });
+
+    it('skips the event when the log group has no deletion schedule', async () => {
+      // Prepare
+      schedulerClient.on(ListSchedulesCommand).resolves({});
+
+      // Act
+      const result = await handler(deleteEvent, context);
+
+      // Assess
+      expect(result.batchItemFailures).toHaveLength(0);
+      expect(schedulerClient).not.toReceiveCommand(DeleteScheduleCommand);
+    });
+
+    it('treats ResourceNotFoundException as success (idempotent)', async () => {
+      // Prepare
+      schedulerClient
+        .on(ListSchedulesCommand)
+        .resolves({
+          Schedules: [{ Name: 'DeleteLogGroup-abc-0000000000000001' }, {}],
+        })
+        .on(DeleteScheduleCommand)
+        .rejects(
+          new ResourceNotFoundException({
+            message: 'Schedule does not exist',
+            Message: 'Schedule does not exist',
+            $metadata: {},
+          })
+        );
+
+      // Act
+      const result = await handler(deleteEvent, context);
+
+      // Assess
+      expect(result.batchItemFailures).toHaveLength(0);
+    });
+
+    it('returns batch item failures for other errors', async () => {
+      // Prepare
+      schedulerClient
+        .on(ListSchedulesCommand)
+        .resolves({
+          Schedules: [{ Name: 'DeleteLogGroup-abc-0000000000000001' }],
+        })
+        .on(DeleteScheduleCommand)
+        .rejects(new Error('Access denied'));
+
+      // Act
+      const result = await handler(deleteEvent, context);
+
+      // Assess
+      expect(result.batchItemFailures).toHaveLength(1);
+    });
+  });
+
+  describe('never-expiring log groups', () => {
+    const logGroupName =
+      '/aws/lambda/Logger-20-x86-132f7-Basic-Middy-BasicFeatures';
+    const loadHandler = async (policy: string) => {
+      vi.resetModules();
+      vi.stubEnv('NEVER_EXPIRE_POLICY', policy);
+      return (await import('../src/event-handler.ts')).handler;
+    };
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('schedules the deletion neverExpireDelayDays after creation with the delay policy', async () => {
+      // Prepare
+      const handler = await loadHandler('delay');
+      cwClient.on(DescribeLogGroupsCommand).resolves({
+        logGroups: [
+          { logGroupName, creationTime: Date.parse('2024-10-10T13:26:07Z') },
+        ],
+      });
+      schedulerClient.on(CreateScheduleCommand).resolves({});
+
+      // Act
+      const result = await handler(sqsEvent, context);
+
+      // Assess
+      expect(result.batchItemFailures).toHaveLength(0);
+      expect(schedulerClient).toReceiveCommandWith(CreateScheduleCommand, {
+        ScheduleExpression: 'at(2024-10-13T13:26:07)',
+      });
+      expect(cwClient).not.toReceiveCommand(PutRetentionPolicyCommand);
+    });
+
+    it('applies the default retention before scheduling with the applyDefaultRetention policy', async () => {
+      // Prepare
+      const handler = await loadHandler('applyDefaultRetention');
+      cwClient
+        .on(DescribeLogGroupsCommand)
+        .resolves({
+          logGroups: [
+            { logGroupName, creationTime: Date.parse('2024-10-10T13:26:07Z') },
+          ],
+        })
+        .on(PutRetentionPolicyCommand)
+        .resolves({});
+      schedulerClient.on(CreateScheduleCommand).resolves({});
+
+      // Act
+      const result = await handler(sqsEvent, context);
+
+      // Assess - 7 days default retention + 1 day delay
+      expect(result.batchItemFailures).toHaveLength(0);
+      expect(cwClient).toReceiveCommandWith(PutRetentionPolicyCommand, {
+        logGroupName,
+        retentionInDays: 7,
+      });
+      expect(schedulerClient).toReceiveCommandWith(CreateScheduleCommand, {
+        ScheduleExpression: 'at(2024-10-18T13:26:07)',
+      });
+    });
+
+    it('skips the log group and sends a notification with the skip policy', async () => {
+      // Prepare
+      const handler = await loadHandler('skip');
+      cwClient.on(DescribeLogGroupsCommand).resolves({
+        logGroups: [
+          { logGroupName, creationTime: Date.parse('2024-10-10T13:26:07Z') },
+        ],
+      });
+      lambdaClient.on(InvokeCommand).resolves({});
+
+      // Act
+      const result = await handler(sqsEvent, context);
+
+      // Assess
+      expect(result.batchItemFailures).toHaveLength(0);
+      expect(schedulerClient).not.toReceiveCommand(CreateScheduleCommand);
+      expect(lambdaClient).toReceiveCommandWith(InvokeCommand, {
+        FunctionName: 'slack-workflow-notifier',
+        InvocationType: 'Event',
+      });
+      const [invokeCall] = lambdaClient.commandCalls(InvokeCommand);
+      expect(
+        JSON.parse(invokeCall.args[0].input.Payload as string)
+      ).toStrictEqual({
+        source: 'cwlogs-garbage-goober',
+        title: 'Never-expiring log group skipped',
+        description: `Log group ${logGroupName} has no retention policy and was not scheduled for deletion`,
+        region: 'eu-west-1',
+        time: expect.any(String),
+        url: 'https://eu-west-1.console.aws.amazon.com/cloudwatch/home?region=eu-west-1#logsV2:log-groups/log-group/$252Faws$252Flambda$252FLogger-20-x86-132f7-Basic-Middy-BasicFeatures',
+      });
+    });
+
+    it('does not notify again when the event of a skipped log group is redelivered', async () => {
+      // Prepare
+      const handler = await loadHandler('skip');
+      const creationTime = Date.parse('2024-10-10T13:26:07Z');
+      cwClient.on(DescribeLogGroupsCommand).resolves({
+        logGroups: [{ logGroupName, creationTime }],
+      });
+      documentClient.on(GetCommand).resolves({
+        Item: {
+          state: 'SKIPPED',
+          reason: 'Log group never expires',
+          creationTime,
+        },
+      });
+
+      // Act
+      const result = await handler(sqsEvent, context);
+
+      // Assess
+      expect(result.batchItemFailures).toHaveLength(0);
+      expect(lambdaClient).not.toReceiveCommand(InvokeCommand);
+      expect(documentClient).toReceiveCommandWith(UpdateCommand, {
+        ExpressionAttributeValues: expect.objectContaining({
+          ':state': 'SKIPPED',
+          ':reason': 'Log group never expires',
+        }),
+      });
+    });
+
+    it('deletes the existing schedule when the retention policy is removed with the skip policy', async () => {
+      // Prepare
+      const handler = await loadHandler('skip');
+      cwClient.on(DescribeLogGroupsCommand).resolves({
+        logGroups: [
+          { logGroupName, creationTime: Date.parse('2024-10-10T13:26:07Z') },
+        ],
+      });
+      schedulerClient
+        .on(GetScheduleCommand)
+        .resolves({
+          Target: {
+            Arn: 'arn:aws:sqs:eu-west-1:123456789023:deletion-queue',
+            RoleArn: 'arn:aws:iam::123456789023:role/publish-to-queue-role',
+            Input: JSON.stringify({
+              logGroupName,
+              awsRegion: 'eu-west-1',
+              ruleName: 'e2e',
+            }),
+          },
+        })
+        .on(DeleteScheduleCommand)
+        .resolves({});
+      lambdaClient.on(InvokeCommand).resolves({});
+
+      // Act
+      const result = await handler(
+        wrapInSQSEvent({
+          ...eventBridgeEvent,
+          detail: {
+            ...(eventBridgeEvent.detail as Record<string, unknown>),
+            eventName: 'DeleteRetentionPolicy',
+            requestParameters: { logGroupName },
+          },
+        }),
+        context
+      );
+
+      // Assess
+      expect(result.batchItemFailures).toHaveLength(0);
+      expect(schedulerClient).toReceiveCommand(DeleteScheduleCommand);
+      expect(schedulerClient).not.toReceiveCommand(UpdateScheduleCommand);
+    });
+  });
 });
@@ -0,0 +1,303 @@
+import {
+  CloudWatchLogsClient,
+  DescribeLogGroupsCommand,
+  PutRetentionPolicyCommand,
+} from '@aws-sdk/client-cloudwatch-logs';
+import { InvokeCommand, LambdaClient } from '@aws-sdk/client-lambda';
+import {
+  CreateScheduleCommand,
+  DeleteScheduleCommand,
+  GetScheduleCommand,
+  ListSchedulesCommand,
+  SchedulerClient,
+} from '@aws-sdk/client-scheduler';
+import { SendMessageCommand, SQSClient } from '@aws-sdk/client-sqs';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  cancelLogGroupDeletion,
+  getLogGroupStatus,
+  planSweep,
+  purgeDeletions,
+  startSweep,
+} from '../src/goober-commands.ts';
+
+vi.hoisted(() => {
+  process.env.POWERTOOLS_DEV = 'true';
+  process.env.AWS_REGION = 'eu-west-1';
+  process.env.DELETION_QUEUE_ARN =
+    'arn:aws:sqs:eu-west-1:123456789023:deletion-queue';
+  process.env.DELETION_QUEUE_URL =
+    'https://sqs.eu-west-1.amazonaws.com/123456789023/deletion-queue';
+  process.env.SCHEDULER_ROLE_ARN =
+    'arn:aws:iam::123456789023:role/publish-to-queue-role';
+  process.env.SCHEDULE_GROUP_NAME = 'CWLogsGarbageGoober-deletions';
+  process.env.LEDGER_TABLE_NAME = 'CWLogsGarbageGoober-log-group-ledger';
+  process.env.NEVER_EXPIRE_POLICY = 'applyDefaultRetention';
+  process.env.NEVER_EXPIRE_DEFAULT_RETENTION_DAYS = '7';
+  process.env.NEVER_EXPIRE_DELAY_DAYS = '3';
+  process.env.REGIONS = JSON.stringify(['eu-west-1']);
+  process.env.CLEANUP_RULES = JSON.stringify([
+    {
+      name: 'keep-tracer',
+      includePatterns: ['/aws/lambda/Tracer-*'],
+      deletionDelayDays: 0,
+      action: 'ignore',
+    },
+    {
+      name: 'metrics',
+      logGroupPatterns: ['/aws/lambda/Metrics-'],
+      deletionDelayDays: 1,
+    },
+  ]);
+});
+
+describe('goober-commands', () => {
+  const cwClient = mockClient(CloudWatchLogsClient);
+  const schedulerClient = mockClient(SchedulerClient);
+  const sqsClient = mockClient(SQSClient);
+  const lambdaClient = mockClient(LambdaClient);
+  const documentClient = mockClient(DynamoDBDocumentClient);
+
+  const logGroupName = '/aws/lambda/Metrics-20-x86-132f7';
+  const creationTime = Date.parse('2024-10-10T13:26:07Z');
+
+  const mockSchedule = (name: string, input: Record<string, unknown>) =>
+    schedulerClient.on(GetScheduleCommand, { Name: name }).resolves({
+      ScheduleExpression: 'at(2024-10-18T13:26:07)',
+      Target: {
+        Arn: 'arn:aws:sqs:eu-west-1:123456789023:deletion-queue',
+        RoleArn: 'arn:aws:iam::123456789023:role/publish-to-queue-role',
+        Input: JSON.stringify(input),
+      },
+    });
+
+  beforeEach(() => {
+    documentClient.on(GetCommand).resolves({});
+  });
+
+  afterEach(() => {
+    cwClient.reset();
+    schedulerClient.reset();
+    sqsClient.reset();
+    lambdaClient.reset();
+    documentClient.reset();
+  });
+
+  it('reports the due date and the schedule of a matching log group without changing it', async () => {
+    // Prepare
+    cwClient.on(DescribeLogGroupsCommand).resolves({
+      logGroups: [{ logGroupName, creationTime }],
+    });
+    schedulerClient.on(ListSchedulesCommand).resolves({
+      Schedules: [{ Name: 'DeleteLogGroup-a' }],
+    });
+    mockSchedule('DeleteLogGroup-a', {
+      logGroupName,
+      awsRegion: 'eu-west-1',
+      ruleName: 'metrics',
+    });
+
+    // Act
+    const status = await getLogGroupStatus({
+      logGroupName,
+      region: 'eu-west-1',
+    });
+
+    // Assess
+    expect(status).toEqual({
+      exists: true,
+      plan: expect.objectContaining({
+        outcome: 'due',
+        ruleName: 'metrics',
+      }),
+      schedules: [
+        expect.objectContaining({ scheduleName: 'DeleteLogGroup-a' }),
+      ],
+    });
+    expect(
+      status.exists && status.plan.outcome === 'due'
+        ? status.plan.deletionDate.toString()
+        : undefined
+    ).toBe('2024-10-18T13:26:07Z');
+    expect(cwClient).not.toReceiveCommand(PutRetentionPolicyCommand);
+  });
+
+  it('reports the leftover schedules of a log group that no longer exists', async () => {
+    // Prepare
+    cwClient.on(DescribeLogGroupsCommand).resolves({ logGroups: [] });
+    schedulerClient.on(ListSchedulesCommand).resolves({ Schedules: [] });
+
+    // Act
+    const status = await getLogGroupStatus({
+      logGroupName,
+      region: 'eu-west-1',
+    });
+
+    // Assess
+    expect(status).toEqual({ exists: false, schedules: [] });
+  });
+
+  it('cancels the pending deletions of a log group', async () => {
+    // Prepare
+    schedulerClient.on(ListSchedulesCommand).resolves({
+      Schedules: [{ Name: 'DeleteLogGroup-a' }],
+    });
+    mockSchedule('DeleteLogGroup-a', {
+      logGroupName,
+      awsRegion: 'eu-west-1',
+      ruleName: 'metrics',
+    });
+    schedulerClient.on(DeleteScheduleCommand).resolves({});
+
+    // Act
+    const cancelled = await cancelLogGroupDeletion({
+      logGroupName,
+      region: 'eu-west-1',
+    });
+
+    // Assess
+    expect(cancelled).toHaveLength(1);
+    expect(schedulerClient).toReceiveCommandWith(DeleteScheduleCommand, {
+      Name: 'DeleteLogGroup-a',
+    });
+    expect(documentClient).toReceiveCommandWith(UpdateCommand, {
+      ExpressionAttributeValues: expect.objectContaining({
+        ':state': 'SKIPPED',
+        ':reason': 'Deletion cancelled through the goober CLI',
+        ':hold': 'cancelled',
+      }),
+    });
+  });
+
+  it('keeps a cancelled log group out of the next sweep', async () => {
+    // Prepare
+    schedulerClient.on(ListSchedulesCommand).resolves({
+      Schedules: [{ Name: 'DeleteLogGroup-a' }],
+    });
+    mockSchedule('DeleteLogGroup-a', {
+      logGroupName,
+      awsRegion: 'eu-west-1',
+      ruleName: 'metrics',
+    });
+    schedulerClient.on(DeleteScheduleCommand).resolves({});
+    cwClient.on(DescribeLogGroupsCommand).resolves({
+      logGroups: [{ logGroupName, creationTime }],
+    });
+    await cancelLogGroupDeletion({ logGroupName, region: 'eu-west-1' });
+    documentClient.on(GetCommand).resolves({
+      Item: {
+        state: 'SKIPPED',
+        reason: 'Deletion cancelled through the goober CLI',
+        hold: 'cancelled',
+      },
+    });
+
+    // Act
+    const { summary, due } = await planSweep({});
+
+    // Assess
+    expect(summary).toEqual({ notMatched: 0, ignored: 0, skipped: 1, due: 0 });
+    expect(due).toEqual([]);
+  });
+
+  it('does nothing when the log group has no pending deletion', async () => {
+    // Prepare
+    schedulerClient.on(ListSchedulesCommand).resolves({ Schedules: [] });
+
+    // Act
+    const cancelled = await cancelLogGroupDeletion({
+      logGroupName,
+      region: 'eu-west-1',
+    });
+
+    // Assess
+    expect(cancelled).toEqual([]);
+    expect(documentClient).not.toReceiveCommand(UpdateCommand);
+  });
+
+  it.each([
+    { confirm: false, sent: 0 },
+    { confirm: true, sent: 1 },
+  ])(
+    'sends the pending deletions under the prefix to the deletion queue only when confirmed ($confirm)',
+    async ({ confirm, sent }) => {
+      // Prepare
+      schedulerClient.on(ListSchedulesCommand).resolves({
+        Schedules: [{ Name: 'DeleteLogGroup-a' }, { Name: 'DeleteLogGroup-b' }],
+      });
+      mockSchedule('DeleteLogGroup-a', {
+        logGroupName,
+        awsRegion: 'eu-west-1',
+      });
+      mockSchedule('DeleteLogGroup-b', {
+        logGroupName: '/aws/lambda/Tracer-20-x86-132f7',
+        awsRegion: 'eu-west-1',
+      });
+      sqsClient.on(SendMessageCommand).resolves({});
+      schedulerClient.on(DeleteScheduleCommand).resolves({});
+
+      // Act
+      const schedules = await purgeDeletions({
+        prefix: '/aws/lambda/Metrics-',
+        confirm,
+      });
+
+      // Assess
+      expect(schedules).toEqual([
+        expect.objectContaining({ scheduleName: 'DeleteLogGroup-a' }),
+      ]);
+      expect(sqsClient).toReceiveCommandTimes(SendMessageCommand, sent);
+      expect(schedulerClient).toReceiveCommandTimes(
+        DeleteScheduleCommand,
+        sent
+      );
+    }
+  );
+
+  it('plans the sweep without scheduling anything', async () => {
+    // Prepare
+    cwClient.on(DescribeLogGroupsCommand).resolves({
+      logGroups: [
+        { logGroupName, creationTime },
+        { logGroupName: '/aws/lambda/Tracer-20-x86-132f7', creationTime },
+        { logGroupName: '/aws/lambda/other', creationTime },
+      ],
+    });
+
+    // Act
+    const { summary, due } = await planSweep({});
+
+    // Assess
+    expect(summary).toEqual({ notMatched: 1, ignored: 1, skipped: 0, due: 1 });
+    expect(due).toEqual([
+      expect.objectContaining({ logGroupName, region: 'eu-west-1' }),
+    ]);
+    expect(schedulerClient).not.toReceiveCommand(CreateScheduleCommand);
+    expect(sqsClient).not.toReceiveCommand(SendMessageCommand);
+    expect(cwClient).not.toReceiveCommand(PutRetentionPolicyCommand);
+  });
+
+  it('starts a sweep with the deployed sweep handler', async () => {
+    // Prepare
+    lambdaClient.on(InvokeCommand).resolves({});
+
+    // Act
+    await startSweep({
+      functionName: 'CWLogsGarbageGoober-sweep-handler',
+      regions: ['us-east-1'],
+    });
+
+    // Assess
+    expect(lambdaClient).toReceiveCommandWith(InvokeCommand, {
+      FunctionName: 'CWLogsGarbageGoober-sweep-handler',
+      InvocationType: 'Event',
+      Payload: JSON.stringify({ regions: ['us-east-1'] }),
+    });
+  });
+});
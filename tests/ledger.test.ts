@@ -0,0 +1,76 @@
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import { Temporal } from 'temporal-polyfill';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { recordTransition } from '../src/ledger.ts';
+
+vi.hoisted(() => {
+  process.env.POWERTOOLS_DEV = 'true';
+  process.env.AWS_REGION = 'eu-west-1';
+  process.env.LEDGER_TABLE_NAME = 'CWLogsGarbageGoober-log-group-ledger';
+});
+
+describe('ledger', () => {
+  const documentClient = mockClient(DynamoDBDocumentClient);
+
+  const logGroupName = '/aws/lambda/Metrics-20-x86-132f7';
+
+  afterEach(() => {
+    documentClient.reset();
+  });
+
+  it('sets the current state and appends the transition to the history', async () => {
+    // Prepare
+    documentClient.on(UpdateCommand).resolves({});
+
+    // Act
+    await recordTransition({
+      logGroupName,
+      region: 'eu-west-1',
+      state: 'SCHEDULED',
+      reason: 'Deletion due 8 days after creation',
+      logGroup: { logGroupName, retentionInDays: 7, storedBytes: 1024 },
+      ruleName: 'metrics',
+      deletionDate: Temporal.Instant.from('2024-10-18T13:26:07Z'),
+    });
+
+    // Assess
+    expect(documentClient).toReceiveCommandWith(UpdateCommand, {
+      TableName: 'CWLogsGarbageGoober-log-group-ledger',
+      Key: { logGroupName, awsRegion: 'eu-west-1' },
+      UpdateExpression:
+        'SET #state = :state, #reason = :reason, #updatedAt = :updatedAt, #retentionInDays = :retentionInDays, #storedBytes = :storedBytes, #ruleName = :ruleName, #dueAt = :dueAt, #transitions = list_append(if_not_exists(#transitions, :empty), :transition)',
+      ExpressionAttributeValues: expect.objectContaining({
+        ':dueAt': Date.parse('2024-10-18T13:26:07Z'),
+        ':transition': [
+          expect.objectContaining({
+            state: 'SCHEDULED',
+            reason: 'Deletion due 8 days after creation',
+            retentionInDays: 7,
+            storedBytes: 1024,
+            dueAt: '2024-10-18T13:26:07Z',
+          }),
+        ],
+      }),
+    });
+  });
+
+  it('clears the due date of the previous lifecycle when a log group is detected', async () => {
+    // Prepare
+    documentClient.on(UpdateCommand).resolves({});
+
+    // Act
+    await recordTransition({
+      logGroupName,
+      region: 'eu-west-1',
+      state: 'DETECTED',
+      reason: 'Matched cleanup rule metrics',
+    });
+
+    // Assess
+    expect(documentClient).toReceiveCommandWith(UpdateCommand, {
+      UpdateExpression: expect.stringMatching(/ REMOVE #dueAt$/),
+      ExpressionAttributeNames: expect.objectContaining({ '#dueAt': 'dueAt' }),
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import {
+  compilePattern,
+  createLogGroupNameMatcher,
+  createRuleMatcher,
+  getLiteralPrefix,
+  hasTagConditions,
+} from '../src/matching.ts';
+import { CleanupRuleSchema } from '../src/schemas/cleanup-rule.ts';
+
+describe('matching', () => {
+  describe('compilePattern', () => {
+    it.each([
+      ['/aws/lambda/Logger-*', '/aws/lambda/Logger-20-x86', true],
+      ['/aws/lambda/Logger-*', '/aws/lambda/Tracer-20-x86', false],
+      ['*-Canary-*', '/aws/lambda/Logger-20-Canary-x86', true],
+      ['*-Canary', '/aws/lambda/Logger-20-Canary-x86', false],
+      ['/aws/lambda/Logger-2?', '/aws/lambda/Logger-20', true],
+      ['/aws/lambda/Logger-2?', '/aws/lambda/Logger-200', false],
+      ['/aws/lambda/Logger.(x)', '/aws/lambda/Logger.(x)', true],
+      ['/aws/lambda/Logger.(x)', '/aws/lambda/LoggerA(x)', false],
+      ['regex:-\\d+$', '/aws/lambda/Logger-20', true],
+      ['regex:-\\d+$', '/aws/lambda/Logger-20-x86', false],
+    ])('compiles %s (matches %s: %s)', (pattern, logGroupName, expected) => {
+      // Act
+      const regExp = compilePattern(pattern);
+
+      // Assess
+      expect(regExp.test(logGroupName)).toBe(expected);
+    });
+  });
+
+  describe('getLiteralPrefix', () => {
+    it.each([
+      ['/aws/lambda/Logger-*', '/aws/lambda/Logger-'],
+      ['/aws/lambda/Logger-?-*', '/aws/lambda/Logger-'],
+      ['/aws/lambda/Logger', '/aws/lambda/Logger'],
+      ['*-Canary-*', ''],
+      ['regex:^/aws/lambda/', ''],
+    ])('returns the literal prefix of %s', (pattern, expected) => {
+      // Act & Assess
+      expect(getLiteralPrefix(pattern)).toBe(expected);
+    });
+  });
+
+  describe('createLogGroupNameMatcher', () => {
+    const matches = createLogGroupNameMatcher({
+      prefixes: ['/aws/lambda/Logger-'],
+      include: ['/aws/lambda/*-Metrics'],
+      exclude: ['*-Canary-*'],
+    });
+
+    it.each([
+      ['/aws/lambda/Logger-20-x86', true],
+      ['/aws/lambda/Tracer-20-Metrics', true],
+      ['/aws/lambda/Tracer-20-x86', false],
+      ['/aws/lambda/Logger-20-Canary-x86', false],
+    ])('matches %s: %s', (logGroupName, expected) => {
+      // Act & Assess
+      expect(matches(logGroupName)).toBe(expected);
+    });
+  });
+
+  describe('createRuleMatcher', () => {
+    const rule = CleanupRuleSchema.parse({
+      name: 'e2e',
+      logGroupPatterns: ['/aws/lambda/Logger-'],
+      requiredTags: {
+        Service: ['e2e', { prefix: 'powertools-' }],
+        Stage: { exists: true },
+      },
+      anyOfTags: [{ Team: 'tracing' }, { Owner: { prefix: 'ci-' } }],
+      untaggedPatterns: ['/aws/lambda/Logger-*-Canary'],
+      deletionDelayDays: 1,
+    });
+    const findMatchingRule = createRuleMatcher([rule]);
+
+    it.each<{
+      case: string;
+      tags: Record<string, string>;
+      expected: boolean;
+    }>([
+      {
+        case: 'a listed value and one of the groups',
+        tags: { Service: 'e2e', Stage: 'dev', Team: 'tracing' },
+        expected: true,
+      },
+      {
+        case: 'a value with the prefix and the other group',
+        tags: { Service: 'powertools-ts', Stage: '', Owner: 'ci-bot' },
+        expected: true,
+      },
+      {
+        case: 'an unlisted value',
+        tags: { Service: 'prod', Stage: 'dev', Team: 'tracing' },
+        expected: false,
+      },
+      {
+        case: 'a missing tag that must exist',
+        tags: { Service: 'e2e', Team: 'tracing' },
+        expected: false,
+      },
+      {
+        case: 'none of the groups',
+        tags: { Service: 'e2e', Stage: 'dev', Team: 'metrics' },
+        expected: false,
+      },
+    ])('matches log groups with $case: $expected', ({ tags, expected }) => {
+      // Act
+      const matched = findMatchingRule({
+        logGroupName: '/aws/lambda/Logger-20-x86',
+        tags,
+      });
+
+      // Assess
+      expect(matched?.name).toBe(expected ? 'e2e' : undefined);
+    });
+
+    it('matches log groups without tags when their name matches an untagged pattern', () => {
+      // Act & Assess
+      expect(
+        findMatchingRule({ logGroupName: '/aws/lambda/Logger-20-Canary' })
+      ).toBe(rule);
+      expect(
+        findMatchingRule({ logGroupName: '/aws/lambda/Logger-20-x86' })
+      ).toBeUndefined();
+    });
+
+    it('tells whether the tags of the log groups must be looked up', () => {
+      // Act & Assess
+      expect(hasTagConditions(rule)).toBe(true);
+      expect(
+        hasTagConditions(
+          CleanupRuleSchema.parse({ name: 'untagged', deletionDelayDays: 1 })
+        )
+      ).toBe(false);
+    });
+  });
+});
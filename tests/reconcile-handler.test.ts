@@ -0,0 +1,279 @@
+import {
+  CloudWatchLogsClient,
+  DescribeLogGroupsCommand,
+  ListTagsForResourceCommand,
+  type LogGroup,
+} from '@aws-sdk/client-cloudwatch-logs';
+import { InvokeCommand, LambdaClient } from '@aws-sdk/client-lambda';
+import {
+  CreateScheduleCommand,
+  DeleteScheduleCommand,
+  GetScheduleCommand,
+  ListSchedulesCommand,
+  SchedulerClient,
+} from '@aws-sdk/client-scheduler';
+import { SendMessageCommand, SQSClient } from '@aws-sdk/client-sqs';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { handler } from '../src/reconcile-handler.ts';
+import { getScheduleName } from '../src/schedule-names.ts';
+import { context } from './helpers.ts';
+
+vi.hoisted(() => {
+  process.env.POWERTOOLS_DEV = 'true';
+  process.env.AWS_REGION = 'eu-west-1';
+  process.env.DELETION_QUEUE_ARN =
+    'arn:aws:sqs:eu-west-1:123456789023:deletion-queue';
+  process.env.DELETION_QUEUE_URL =
+    'https://sqs.eu-west-1.amazonaws.com/123456789023/deletion-queue';
+  process.env.SCHEDULER_ROLE_ARN =
+    'arn:aws:iam::123456789023:role/publish-to-queue-role';
+  process.env.SCHEDULE_GROUP_NAME = 'CWLogsGarbageGoober-deletions';
+  process.env.NEVER_EXPIRE_DELAY_DAYS = '3';
+  process.env.NOTIFIER_FUNCTION_NAME = 'slack-workflow-notifier';
+  process.env.LEDGER_TABLE_NAME = 'CWLogsGarbageGoober-log-group-ledger';
+  process.env.REGIONS = JSON.stringify(['eu-west-1']);
+  process.env.CLEANUP_RULES = JSON.stringify([
+    {
+      name: 'metrics',
+      logGroupPatterns: ['/aws/lambda/Metrics-'],
+      deletionDelayDays: 1,
+    },
+  ]);
+});
+
+describe('reconcile-handler', () => {
+  const cwClient = mockClient(CloudWatchLogsClient);
+  const schedulerClient = mockClient(SchedulerClient);
+  const sqsClient = mockClient(SQSClient);
+  const lambdaClient = mockClient(LambdaClient);
+  const documentClient = mockClient(DynamoDBDocumentClient);
+
+  const logGroupName = '/aws/lambda/Metrics-20-x86-132f7';
+  const creationTime = Date.now();
+  const scheduleName = getScheduleName({
+    logGroupName,
+    region: 'eu-west-1',
+    creationTime,
+  });
+  const logGroup: LogGroup = {
+    logGroupName,
+    logGroupArn: `arn:aws:logs:eu-west-1:123456789012:log-group:${logGroupName}`,
+    creationTime,
+    retentionInDays: 7,
+  };
+
+  const mockSchedules = (names: string[]) =>
+    schedulerClient
+      .on(ListSchedulesCommand)
+      .resolves({ Schedules: names.map((Name) => ({ Name })) })
+      .on(GetScheduleCommand)
+      .resolves({
+        Target: {
+          Arn: 'arn:aws:sqs:eu-west-1:123456789023:deletion-queue',
+          RoleArn: 'arn:aws:iam::123456789023:role/publish-to-queue-role',
+          Input: JSON.stringify({
+            logGroupName,
+            awsRegion: 'eu-west-1',
+            ruleName: 'metrics',
+          }),
+        },
+      });
+
+  beforeEach(() => {
+    cwClient.on(ListTagsForResourceCommand).resolves({ tags: {} });
+    lambdaClient.on(InvokeCommand).resolves({});
+    documentClient.on(GetCommand).resolves({});
+  });
+
+  afterEach(() => {
+    cwClient.reset();
+    schedulerClient.reset();
+    sqsClient.reset();
+    lambdaClient.reset();
+    documentClient.reset();
+    vi.unstubAllEnvs();
+  });
+
+  it('does nothing when schedules and log groups are in sync', async () => {
+    // Prepare
+    mockSchedules([scheduleName]);
+    cwClient.on(DescribeLogGroupsCommand).resolves({ logGroups: [logGroup] });
+
+    // Act
+    const result = await handler({}, context);
+
+    // Assess
+    expect(result).toEqual({ schedules: 1, orphaned: 0, missing: 0 });
+    expect(schedulerClient).not.toReceiveCommand(DeleteScheduleCommand);
+    expect(schedulerClient).not.toReceiveCommand(CreateScheduleCommand);
+    expect(lambdaClient).not.toReceiveCommand(InvokeCommand);
+  });
+
+  it.each([
+    { case: 'no longer exists', logGroups: [] },
+    {
+      case: 'was re-created since',
+      logGroups: [{ ...logGroup, creationTime: creationTime + 1000 }],
+    },
+  ])('deletes schedules whose log group $case', async ({ logGroups }) => {
+    // Prepare
+    mockSchedules([scheduleName]);
+    cwClient.on(DescribeLogGroupsCommand).resolves({ logGroups });
+    schedulerClient
+      .on(DeleteScheduleCommand)
+      .resolves({})
+      .on(CreateScheduleCommand)
+      .resolves({});
+
+    // Act
+    const result = await handler({}, context);
+
+    // Assess
+    expect(result.orphaned).toBe(1);
+    expect(schedulerClient).toReceiveCommandWith(DeleteScheduleCommand, {
+      Name: scheduleName,
+    });
+    expect(lambdaClient).toReceiveCommandWith(InvokeCommand, {
+      FunctionName: 'slack-workflow-notifier',
+      Payload: expect.stringContaining(
+        `1 orphaned schedules deleted: ${logGroupName}`
+      ),
+    });
+  });
+
+  it('schedules the deletion of matching log groups without a schedule', async () => {
+    // Prepare
+    mockSchedules([]);
+    cwClient.on(DescribeLogGroupsCommand).resolves({ logGroups: [logGroup] });
+    schedulerClient.on(CreateScheduleCommand).resolves({});
+
+    // Act
+    const result = await handler({}, context);
+
+    // Assess
+    expect(result).toEqual({ schedules: 0, orphaned: 0, missing: 1 });
+    expect(schedulerClient).toReceiveCommandWith(CreateScheduleCommand, {
+      Name: scheduleName,
+    });
+    expect(lambdaClient).toReceiveCommandWith(InvokeCommand, {
+      Payload: expect.stringContaining(
+        `1 log groups without schedule handled: ${logGroupName}`
+      ),
+    });
+  });
+
+  it('does not report protected log groups without a schedule', async () => {
+    // Prepare
+    mockSchedules([]);
+    cwClient
+      .on(DescribeLogGroupsCommand)
+      .resolves({ logGroups: [logGroup] })
+      .on(ListTagsForResourceCommand)
+      .resolves({ tags: { 'goober:keep': 'true' } });
+
+    // Act
+    const result = await handler({}, context);
+
+    // Assess
+    expect(result.missing).toBe(0);
+    expect(schedulerClient).not.toReceiveCommand(CreateScheduleCommand);
+    expect(lambdaClient).not.toReceiveCommand(InvokeCommand);
+  });
+
+  it('does not reschedule log groups whose deletion was cancelled', async () => {
+    // Prepare
+    mockSchedules([]);
+    cwClient.on(DescribeLogGroupsCommand).resolves({ logGroups: [logGroup] });
+    documentClient.on(GetCommand).resolves({
+      Item: {
+        state: 'SKIPPED',
+        reason: 'Deletion cancelled through the admin API',
+        creationTime,
+        hold: 'cancelled',
+      },
+    });
+
+    // Act
+    const result = await handler({}, context);
+
+    // Assess
+    expect(result.missing).toBe(0);
+    expect(documentClient).toReceiveCommandWith(GetCommand, {
+      TableName: 'CWLogsGarbageGoober-log-group-ledger',
+      Key: { logGroupName, awsRegion: 'eu-west-1' },
+    });
+    expect(schedulerClient).not.toReceiveCommand(CreateScheduleCommand);
+    expect(sqsClient).not.toReceiveCommand(SendMessageCommand);
+  });
+
+  it.each([
+    { dryRun: 'true', missing: 0 },
+    { dryRun: 'false', missing: 1 },
+  ])(
+    'only holds log groups skipped in dry-run mode while it is on (dryRun: $dryRun)',
+    async ({ dryRun, missing }) => {
+      // Prepare - the dry-run mode is read when the modules are loaded
+      vi.resetModules();
+      vi.stubEnv('DRY_RUN', dryRun);
+      const { handler } = await import('../src/reconcile-handler.ts');
+      mockSchedules([]);
+      cwClient.on(DescribeLogGroupsCommand).resolves({ logGroups: [logGroup] });
+      documentClient.on(GetCommand).resolves({
+        Item: {
+          state: 'SKIPPED',
+          reason: 'Dry run, the log group would have been deleted',
+          creationTime,
+          hold: 'dryRun',
+        },
+      });
+      schedulerClient.on(CreateScheduleCommand).resolves({});
+
+      // Act
+      const result = await handler({}, context);
+
+      // Assess
+      expect(result.missing).toBe(missing);
+    }
+  );
+
+  it('does not enqueue log groups whose deletion is in progress', async () => {
+    // Prepare
+    mockSchedules([]);
+    cwClient.on(DescribeLogGroupsCommand).resolves({ logGroups: [logGroup] });
+    documentClient.on(GetCommand).resolves({
+      Item: {
+        state: 'SCHEDULED',
+        reason: 'Deletion due 1 days after creation',
+        creationTime,
+        dueAt: Date.now() - 60_000,
+      },
+    });
+
+    // Act
+    const result = await handler({}, context);
+
+    // Assess
+    expect(result.missing).toBe(0);
+    expect(schedulerClient).not.toReceiveCommand(CreateScheduleCommand);
+    expect(sqsClient).not.toReceiveCommand(SendMessageCommand);
+  });
+
+  it('ignores schedules with an unexpected input', async () => {
+    // Prepare
+    schedulerClient
+      .on(ListSchedulesCommand)
+      .resolves({ Schedules: [{ Name: 'DeleteLogGroup-other' }] })
+      .on(GetScheduleCommand)
+      .resolves({ Target: { Arn: 'arn', RoleArn: 'arn', Input: '{}' } });
+    cwClient.on(DescribeLogGroupsCommand).resolves({ logGroups: [] });
+
+    // Act
+    const result = await handler({}, context);
+
+    // Assess
+    expect(result.schedules).toBe(0);
+    expect(schedulerClient).not.toReceiveCommand(DeleteScheduleCommand);
+  });
+});
@@ -0,0 +1,245 @@
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import {
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  ScanCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import { Temporal } from 'temporal-polyfill';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  getScheduleName,
+  getScheduleNamePrefix,
+} from '../src/schedule-names.ts';
+import {
+  createScheduleTableBackend,
+  removeDispatchedSchedule,
+} from '../src/schedule-table.ts';
+
+vi.hoisted(() => {
+  process.env.POWERTOOLS_DEV = 'true';
+  process.env.AWS_REGION = 'eu-west-1';
+  process.env.SCHEDULE_TABLE_NAME = 'CWLogsGarbageGoober-deletion-schedules';
+});
+
+describe('schedule-table', () => {
+  const documentClient = mockClient(DynamoDBDocumentClient);
+  const backend = createScheduleTableBackend();
+
+  const logGroupName = '/aws/lambda/Metrics-20-x86-132f7';
+  const region = 'eu-west-1';
+  const scheduleName = getScheduleName({
+    logGroupName,
+    region,
+    creationTime: Date.parse('2024-10-10T13:26:07Z'),
+  });
+  const deletionDate = Temporal.Instant.from('2024-10-18T13:26:07Z');
+
+  afterEach(() => {
+    documentClient.reset();
+  });
+
+  it('stores the schedule in the partition of its log group', async () => {
+    // Prepare
+    documentClient.on(PutCommand).resolves({});
+
+    // Act
+    await backend.upsertSchedule({
+      scheduleName,
+      deletionDate,
+      logGroupName,
+      region,
+      ruleName: 'metrics',
+    });
+
+    // Assess
+    expect(documentClient).toReceiveCommandWith(PutCommand, {
+      TableName: 'CWLogsGarbageGoober-deletion-schedules',
+      Item: {
+        pk: getScheduleNamePrefix({ logGroupName, region }),
+        scheduleName,
+        logGroupName,
+        awsRegion: region,
+        ruleName: 'metrics',
+        status: 'PENDING',
+        dueAt: deletionDate.epochMilliseconds,
+      },
+      ConditionExpression: undefined,
+    });
+  });
+
+  it('marks schedules created in dry-run mode', async () => {
+    // Prepare
+    documentClient.on(PutCommand).resolves({});
+
+    // Act
+    await backend.upsertSchedule({
+      scheduleName,
+      deletionDate,
+      logGroupName,
+      region,
+      dryRun: true,
+    });
+
+    // Assess
+    expect(documentClient).toReceiveCommandWith(PutCommand, {
+      Item: expect.objectContaining({ dryRun: true }),
+    });
+  });
+
+  it('only updates schedules that exist', async () => {
+    // Prepare
+    documentClient.on(PutCommand).resolves({});
+
+    // Act
+    await backend.updateSchedule({
+      scheduleName,
+      deletionDate,
+      logGroupName,
+      region,
+    });
+
+    // Assess
+    expect(documentClient).toReceiveCommandWith(PutCommand, {
+      ConditionExpression: 'attribute_exists(scheduleName)',
+    });
+  });
+
+  it('reads a schedule', async () => {
+    // Prepare
+    documentClient.on(GetCommand).resolves({
+      Item: {
+        scheduleName,
+        logGroupName,
+        awsRegion: region,
+        ruleName: 'metrics',
+        dueAt: deletionDate.epochMilliseconds,
+      },
+    });
+
+    // Act
+    const schedule = await backend.getSchedule(scheduleName);
+
+    // Assess
+    expect(schedule).toEqual(
+      expect.objectContaining({
+        scheduleName,
+        logGroupName,
+        region,
+        ruleName: 'metrics',
+      })
+    );
+  });
+
+  it('returns undefined when the schedule does not exist', async () => {
+    // Prepare
+    documentClient.on(GetCommand).resolves({});
+
+    // Act
+    const schedule = await backend.getSchedule(scheduleName);
+
+    // Assess
+    expect(schedule).toBeUndefined();
+  });
+
+  it('lists the schedules of a log group from its partition', async () => {
+    // Prepare
+    documentClient.on(QueryCommand).resolves({ Items: [{ scheduleName }] });
+
+    // Act
+    const scheduleNames = await backend.listScheduleNames({
+      logGroupName,
+      region,
+    });
+
+    // Assess
+    expect(scheduleNames).toEqual([scheduleName]);
+    expect(documentClient).toReceiveCommandWith(QueryCommand, {
+      ExpressionAttributeValues: {
+        ':pk': getScheduleNamePrefix({ logGroupName, region }),
+      },
+    });
+  });
+
+  it('filters the scanned schedules and stops once the page is full', async () => {
+    // Prepare
+    const pk = getScheduleNamePrefix({ logGroupName, region });
+    const item = {
+      pk,
+      scheduleName,
+      logGroupName,
+      awsRegion: region,
+      dueAt: deletionDate.epochMilliseconds,
+    };
+    documentClient.on(ScanCommand).resolves({
+      Items: [item, { ...item, scheduleName: `${pk}0123456789abcdef` }],
+      LastEvaluatedKey: { pk, scheduleName: `${pk}fedcba9876543210` },
+    });
+
+    // Act
+    const page = await backend.findSchedulesPage({
+      prefix: '/aws/lambda/',
+      region,
+      limit: 1,
+      cursor: { pk, scheduleName: `${pk}00` },
+    });
+
+    // Assess
+    expect(page).toEqual({
+      schedules: [
+        {
+          scheduleName,
+          logGroupName,
+          region,
+          dueAt: deletionDate.epochMilliseconds,
+          deletionDate,
+        },
+      ],
+      cursor: { pk, scheduleName },
+    });
+    expect(documentClient).toReceiveCommandTimes(ScanCommand, 1);
+    expect(documentClient).toReceiveCommandWith(ScanCommand, {
+      ExclusiveStartKey: { pk, scheduleName: `${pk}00` },
+      FilterExpression:
+        'begins_with(logGroupName, :prefix) AND awsRegion = :region',
+      ExpressionAttributeValues: {
+        ':prefix': '/aws/lambda/',
+        ':region': region,
+      },
+    });
+  });
+
+  it('rejects cursors that do not come from a previous page', async () => {
+    // Act
+    const page = await backend.findSchedulesPage({
+      limit: 10,
+      cursor: { page: 'token', offset: 2 },
+    });
+
+    // Assess
+    expect(page).toBeUndefined();
+    expect(documentClient).not.toReceiveCommand(ScanCommand);
+  });
+
+  it('keeps dispatched schedules that were moved in the meantime', async () => {
+    // Prepare
+    documentClient.on(DeleteCommand).rejects(
+      new ConditionalCheckFailedException({
+        message: 'The conditional request failed',
+        $metadata: {},
+      })
+    );
+
+    // Act & Assess
+    await expect(
+      removeDispatchedSchedule({
+        tableName: 'CWLogsGarbageGoober-deletion-schedules',
+        scheduleName,
+        dueAt: deletionDate.epochMilliseconds,
+      })
+    ).resolves.toBeUndefined();
+  });
+});
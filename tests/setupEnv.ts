@@ -1,8 +1,18 @@
 import type { CustomMatcher } from 'aws-sdk-client-mock-vitest';
-import { toReceiveCommandWith } from 'aws-sdk-client-mock-vitest';
+import {
+  toReceiveCommand,
+  toReceiveCommandTimes,
+  toReceiveCommandWith,
+  toReceiveNthCommandWith,
+} from 'aws-sdk-client-mock-vitest';
 import { expect, vi } from 'vitest';
 
-expect.extend({ toReceiveCommandWith });
+expect.extend({
+  toReceiveCommand,
+  toReceiveCommandTimes,
+  toReceiveCommandWith,
+  toReceiveNthCommandWith,
+});
 
 // Mock console methods to prevent output during tests
 vi.spyOn(console, 'error').mockReturnValue();
@@ -1,6 +1,6 @@
 import type { Context } from 'aws-lambda';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
-import type { CloudWatchAlarmEvent } from '../src/schemas/cloudwatch-alarm.js';
+import type { CloudWatchAlarmEvent } from '../src/schemas/cloudwatch-alarm.ts';
 
 // Mock the Parameters utility
 vi.mock('@aws-lambda-powertools/parameters/ssm', () => ({
@@ -69,10 +69,11 @@ describe('Slack Workflow Notifier', () => {
 
   afterEach(() => {
     vi.clearAllMocks();
+    vi.unstubAllEnvs();
   });
 
   it('should process ALARM state and send to Slack', async () => {
-    const { handler } = await import('../src/slack-workflow-notifier.js');
+    const { handler } = await import('../src/slack-workflow-notifier.ts');
     const { getParameter } = await import(
       '@aws-lambda-powertools/parameters/ssm'
     );
@@ -108,8 +109,23 @@ describe('Slack Workflow Notifier', () => {
     });
   });
 
+  it('should fail without the name of the webhook parameter', async () => {
+    vi.stubEnv('SLACK_WEBHOOK_PARAM_NAME', undefined);
+    const { handler } = await import('../src/slack-workflow-notifier.ts');
+    const { getParameter } = await import(
+      '@aws-lambda-powertools/parameters/ssm'
+    );
+
+    await expect(handler(mockAlarmEvent, mockContext)).rejects.toThrow(
+      'SLACK_WEBHOOK_PARAM_NAME'
+    );
+
+    expect(getParameter).not.toHaveBeenCalled();
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
   it('should skip non-ALARM states', async () => {
-    const { handler } = await import('../src/slack-workflow-notifier.js');
+    const { handler } = await import('../src/slack-workflow-notifier.ts');
     const { getParameter } = await import(
       '@aws-lambda-powertools/parameters/ssm'
     );
@@ -130,4 +146,197 @@ describe('Slack Workflow Notifier', () => {
     expect(getParameter).not.toHaveBeenCalled();
     expect(mockFetch).not.toHaveBeenCalled();
   });
+
+  it('should send notifications from other functions to Slack', async () => {
+    const { handler } = await import('../src/slack-workflow-notifier.ts');
+
+    await handler(
+      {
+        source: 'cwlogs-garbage-goober',
+        title: 'Never-expiring log group skipped',
+        description: 'Log group /aws/lambda/test has no retention policy',
+        region: 'eu-west-1',
+        time: '2025-01-02T12:34:56.000Z',
+        url: 'https://eu-west-1.console.aws.amazon.com/cloudwatch/home?region=eu-west-1#logsV2:log-groups/log-group/$252Faws$252Flambda$252Ftest',
+      },
+      mockContext
+    );
+
+    const fetchCall = mockFetch.mock.calls[0];
+    const payload = JSON.parse(fetchCall[1].body);
+
+    expect(payload).toEqual({
+      emoji: '⚠️',
+      alarmName: 'Never-expiring log group skipped',
+      alarmDescription: 'Log group /aws/lambda/test has no retention policy',
+      cloudWatchUrl:
+        'https://eu-west-1.console.aws.amazon.com/cloudwatch/home?region=eu-west-1#logsV2:log-groups/log-group/$252Faws$252Flambda$252Ftest',
+      region: 'eu-west-1',
+      alarmTime: '2025-01-02 12:34:56 UTC',
+      appName: 'TestApp',
+    });
+  });
+
+  describe('with the Block Kit format', () => {
+    const metricAlarmEvent: CloudWatchAlarmEvent = {
+      ...mockAlarmEvent,
+      alarmData: {
+        ...mockAlarmEvent.alarmData,
+        state: {
+          value: 'ALARM',
+          timestamp: '2025-01-02T12:34:56.000Z',
+          reason:
+            'Threshold Crossed: 1 datapoint [3.0 (02/01/25 12:29:00)] was greater than or equal to the threshold (1.0).',
+          reasonData: JSON.stringify({
+            version: '1.0',
+            statistic: 'Sum',
+            period: 300,
+            recentDatapoints: [3],
+            threshold: 1,
+          }),
+        },
+        configuration: {
+          description: 'Event handler Lambda is experiencing errors',
+          metrics: [
+            {
+              id: 'm1',
+              metricStat: {
+                metric: {
+                  namespace: 'AWS/Lambda',
+                  name: 'Errors',
+                  dimensions: { FunctionName: 'TestApp-event-handler' },
+                },
+                period: 300,
+                stat: 'Sum',
+              },
+              returnData: true,
+            },
+          ],
+        },
+      },
+    };
+
+    beforeEach(() => {
+      process.env.SLACK_MESSAGE_FORMAT = 'blockKit';
+    });
+
+    afterEach(() => {
+      delete process.env.SLACK_MESSAGE_FORMAT;
+    });
+
+    it('should send the reason, metric, threshold and link of the alarm', async () => {
+      const { handler } = await import('../src/slack-workflow-notifier.ts');
+
+      await handler(metricAlarmEvent, mockContext);
+
+      const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+      const text = JSON.stringify(payload.blocks);
+
+      expect(payload.text).toBe(
+        '🚨 TestAlarm is in ALARM: Threshold Crossed: 1 datapoint [3.0 (02/01/25 12:29:00)] was greater than or equal to the threshold (1.0).'
+      );
+      expect(payload.blocks[0]).toEqual({
+        type: 'header',
+        text: { type: 'plain_text', text: '🚨 TestAlarm' },
+      });
+      expect(text).toContain('*Reason*\\nThreshold Crossed');
+      expect(text).toContain(
+        '*Metric*\\nAWS/Lambda Errors (FunctionName=TestApp-event-handler), Sum over 300 s'
+      );
+      expect(text).toContain('*Threshold*\\n1');
+      expect(payload.blocks).toContainEqual({
+        type: 'actions',
+        elements: [
+          {
+            type: 'button',
+            text: { type: 'plain_text', text: 'View alarm' },
+            url: 'https://us-east-1.console.aws.amazon.com/cloudwatch/home?region=us-east-1#alarmsV2:alarm/TestAlarm',
+          },
+        ],
+      });
+    });
+
+    it('should send a resolved message when the alarm returns to OK', async () => {
+      const { handler } = await import('../src/slack-workflow-notifier.ts');
+
+      await handler(
+        {
+          ...metricAlarmEvent,
+          alarmData: {
+            ...metricAlarmEvent.alarmData,
+            state: {
+              value: 'OK',
+              timestamp: '2025-01-02T14:39:56.000Z',
+              reason:
+                'Threshold Crossed: 1 datapoint [0.0 (02/01/25 14:34:00)] was not greater than or equal to the threshold (1.0).',
+            },
+            previousState: {
+              value: 'ALARM',
+              timestamp: '2025-01-02T12:34:56.000Z',
+              reason: 'Threshold Crossed',
+            },
+          },
+        },
+        mockContext
+      );
+
+      const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+
+      expect(payload.text).toBe(
+        '✅ Resolved: TestAlarm is back to OK after 2 h 5 min'
+      );
+      expect(payload.blocks[1].text.text).toContain(
+        'The <https://us-east-1.console.aws.amazon.com/cloudwatch/home?region=us-east-1#alarmsV2:alarm/TestAlarm|alert> raised <!date^1735821296^{date_short_pretty} at {time}|2025-01-02T12:34:56.000Z>'
+      );
+    });
+
+    it('should skip OK states that did not follow an alarm', async () => {
+      const { handler } = await import('../src/slack-workflow-notifier.ts');
+
+      await handler(
+        {
+          ...metricAlarmEvent,
+          alarmData: {
+            ...metricAlarmEvent.alarmData,
+            state: { ...metricAlarmEvent.alarmData.state, value: 'OK' },
+            previousState: {
+              value: 'INSUFFICIENT_DATA',
+              timestamp: '2025-01-02T12:00:00.000Z',
+              reason: 'Insufficient Data',
+            },
+          },
+        },
+        mockContext
+      );
+
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should send notifications from other functions as Block Kit messages', async () => {
+      const { handler } = await import('../src/slack-workflow-notifier.ts');
+
+      await handler(
+        {
+          source: 'cwlogs-garbage-goober',
+          title: 'Never-expiring log group skipped',
+          description: 'Log group /aws/lambda/test has no retention policy',
+          region: 'eu-west-1',
+          time: '2025-01-02T12:34:56.000Z',
+          url: 'https://eu-west-1.console.aws.amazon.com/cloudwatch/home?region=eu-west-1',
+        },
+        mockContext
+      );
+
+      const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+
+      expect(payload.text).toBe('⚠️ Never-expiring log group skipped');
+      expect(payload.blocks[1]).toEqual({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: 'Log group /aws/lambda/test has no retention policy',
+        },
+      });
+    });
+  });
 });
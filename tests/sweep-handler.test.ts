@@ -0,0 +1,395 @@
+import {
+  CloudWatchLogsClient,
+  DescribeLogGroupsCommand,
+  ListTagsForResourceCommand,
+  type LogGroup,
+} from '@aws-sdk/client-cloudwatch-logs';
+import { InvokeCommand, LambdaClient } from '@aws-sdk/client-lambda';
+import {
+  CreateScheduleCommand,
+  GetScheduleCommand,
+  ResourceNotFoundException,
+  SchedulerClient,
+  UpdateScheduleCommand,
+} from '@aws-sdk/client-scheduler';
+import { SendMessageCommand, SQSClient } from '@aws-sdk/client-sqs';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { handler } from '../src/sweep-handler.ts';
+import { context } from './helpers.ts';
+
+vi.hoisted(() => {
+  process.env.POWERTOOLS_DEV = 'true';
+  process.env.AWS_REGION = 'eu-west-1';
+  process.env.DELETION_QUEUE_ARN =
+    'arn:aws:sqs:eu-west-1:123456789023:deletion-queue';
+  process.env.DELETION_QUEUE_URL =
+    'https://sqs.eu-west-1.amazonaws.com/123456789023/deletion-queue';
+  process.env.SCHEDULER_ROLE_ARN =
+    'arn:aws:iam::123456789023:role/publish-to-queue-role';
+  process.env.SCHEDULE_GROUP_NAME = 'CWLogsGarbageGoober-deletions';
+  process.env.NEVER_EXPIRE_POLICY = 'skip';
+  process.env.NEVER_EXPIRE_DELAY_DAYS = '3';
+  process.env.REGIONS = JSON.stringify(['eu-west-1']);
+  process.env.LEDGER_TABLE_NAME = 'CWLogsGarbageGoober-log-group-ledger';
+  process.env.ARCHIVE_BUCKET_NAME = 'goober-archive-bucket';
+  process.env.CLEANUP_RULES = JSON.stringify([
+    {
+      name: 'keep-tracer',
+      includePatterns: ['/aws/lambda/Tracer-*'],
+      deletionDelayDays: 0,
+      action: 'ignore',
+    },
+    {
+      name: 'archived',
+      includePatterns: ['/aws/lambda/Archived-*'],
+      deletionDelayDays: 1,
+      action: 'archive',
+    },
+    {
+      name: 'e2e',
+      logGroupPatterns: ['/aws/lambda/Logger-'],
+      requiredTags: { Service: 'Powertools for AWS e2e tests' },
+      deletionDelayDays: 1,
+    },
+    {
+      name: 'metrics',
+      logGroupPatterns: ['/aws/lambda/Metrics-'],
+      deletionDelayDays: 1,
+    },
+  ]);
+});
+
+describe('sweep-handler', () => {
+  const cwClient = mockClient(CloudWatchLogsClient);
+  const schedulerClient = mockClient(SchedulerClient);
+  const sqsClient = mockClient(SQSClient);
+  const lambdaClient = mockClient(LambdaClient);
+  const documentClient = mockClient(DynamoDBDocumentClient);
+
+  const buildLogGroup = (
+    logGroupName: string,
+    overrides: Partial<LogGroup> = {}
+  ): LogGroup => ({
+    logGroupName,
+    logGroupArn: `arn:aws:logs:eu-west-1:123456789012:log-group:${logGroupName}`,
+    creationTime: Date.now(),
+    retentionInDays: 7,
+    ...overrides,
+  });
+
+  const mockSchedule = (input: Record<string, unknown>) =>
+    schedulerClient.on(GetScheduleCommand).resolves({
+      ScheduleExpression: 'at(2099-10-18T13:26:07)',
+      Target: {
+        Arn: 'arn:aws:sqs:eu-west-1:123456789023:deletion-queue',
+        RoleArn: 'arn:aws:iam::123456789023:role/publish-to-queue-role',
+        Input: JSON.stringify(input),
+      },
+    });
+
+  beforeEach(() => {
+    documentClient.on(GetCommand).resolves({});
+    schedulerClient.on(GetScheduleCommand).rejects(
+      new ResourceNotFoundException({
+        message: 'Schedule does not exist',
+        Message: 'Schedule does not exist',
+        $metadata: {},
+      })
+    );
+  });
+
+  afterEach(() => {
+    cwClient.reset();
+    schedulerClient.reset();
+    sqsClient.reset();
+    lambdaClient.reset();
+    documentClient.reset();
+  });
+
+  it('schedules the deletion of matching log groups', async () => {
+    // Prepare
+    cwClient.on(DescribeLogGroupsCommand).resolves({
+      logGroups: [
+        buildLogGroup('/aws/lambda/Metrics-20-x86-132f7'),
+        buildLogGroup('/aws/lambda/Parameters-20-x86-132f7'),
+        buildLogGroup('/aws/lambda/Tracer-20-x86-132f7'),
+      ],
+    });
+    schedulerClient.on(CreateScheduleCommand).resolves({});
+
+    // Act
+    const result = await handler({}, context);
+
+    // Assess
+    expect(result).toEqual({
+      notMatched: 1,
+      ignored: 1,
+      skipped: 0,
+      scheduled: 1,
+      enqueued: 0,
+      alreadyScheduled: 0,
+      continued: false,
+    });
+    expect(schedulerClient).toReceiveCommandTimes(CreateScheduleCommand, 1);
+    expect(schedulerClient).toReceiveCommandWith(CreateScheduleCommand, {
+      Name: expect.stringMatching(/^DeleteLogGroup-[0-9a-f]{24}-[0-9a-f]{16}$/),
+      Target: expect.objectContaining({
+        Input: JSON.stringify({
+          logGroupName: '/aws/lambda/Metrics-20-x86-132f7',
+          awsRegion: 'eu-west-1',
+          ruleName: 'metrics',
+          ruleAction: 'delete',
+        }),
+      }),
+    });
+    expect(cwClient).not.toReceiveCommand(ListTagsForResourceCommand);
+  });
+
+  it('sends past due log groups to the deletion queue', async () => {
+    // Prepare
+    const logGroupName = '/aws/lambda/Metrics-20-x86-132f7';
+    cwClient.on(DescribeLogGroupsCommand).resolves({
+      logGroups: [
+        buildLogGroup(logGroupName, {
+          creationTime: Date.parse('2024-10-10T13:26:07Z'),
+        }),
+      ],
+    });
+    sqsClient.on(SendMessageCommand).resolves({});
+
+    // Act
+    const result = await handler({}, context);
+
+    // Assess
+    expect(result.enqueued).toBe(1);
+    expect(schedulerClient).not.toReceiveCommand(CreateScheduleCommand);
+    expect(sqsClient).toReceiveCommandWith(SendMessageCommand, {
+      QueueUrl:
+        'https://sqs.eu-west-1.amazonaws.com/123456789023/deletion-queue',
+      MessageBody: JSON.stringify({
+        logGroupName,
+        awsRegion: 'eu-west-1',
+        ruleName: 'metrics',
+        ruleAction: 'delete',
+      }),
+    });
+  });
+
+  it.each([
+    { tags: { Service: 'Powertools for AWS e2e tests' }, scheduled: 1 },
+    { tags: { Service: 'Something else' }, scheduled: 0 },
+  ])(
+    'looks up the tags of log groups when the rule requires them ($tags.Service)',
+    async ({ tags, scheduled }) => {
+      // Prepare
+      const logGroupName = '/aws/lambda/Logger-20-x86-132f7';
+      cwClient
+        .on(DescribeLogGroupsCommand)
+        .resolves({ logGroups: [buildLogGroup(logGroupName)] })
+        .on(ListTagsForResourceCommand)
+        .resolves({ tags });
+      schedulerClient.on(CreateScheduleCommand).resolves({});
+
+      // Act
+      const result = await handler({}, context);
+
+      // Assess
+      expect(result.scheduled).toBe(scheduled);
+      expect(cwClient).toReceiveCommandWith(ListTagsForResourceCommand, {
+        resourceArn: `arn:aws:logs:eu-west-1:123456789012:log-group:${logGroupName}`,
+      });
+    }
+  );
+
+  it('keeps the schedule of a postponed log group', async () => {
+    // Prepare
+    const logGroupName = '/aws/lambda/Metrics-20-x86-132f7';
+    cwClient.on(DescribeLogGroupsCommand).resolves({
+      logGroups: [
+        buildLogGroup(logGroupName, {
+          creationTime: Date.parse('2024-10-10T13:26:07Z'),
+        }),
+      ],
+    });
+    mockSchedule({
+      logGroupName,
+      awsRegion: 'eu-west-1',
+      ruleName: 'metrics',
+      postponeCount: 2,
+      correlationId: 'c0ffee',
+    });
+
+    // Act
+    const result = await handler({}, context);
+
+    // Assess
+    expect(result).toEqual(
+      expect.objectContaining({
+        alreadyScheduled: 1,
+        scheduled: 0,
+        enqueued: 0,
+      })
+    );
+    expect(schedulerClient).toReceiveCommandWith(GetScheduleCommand, {
+      Name: expect.stringMatching(/^DeleteLogGroup-/),
+      GroupName: 'CWLogsGarbageGoober-deletions',
+    });
+    expect(schedulerClient).not.toReceiveCommand(CreateScheduleCommand);
+    expect(schedulerClient).not.toReceiveCommand(UpdateScheduleCommand);
+    expect(sqsClient).not.toReceiveCommand(SendMessageCommand);
+  });
+
+  it('replaces the schedules created in dry-run mode', async () => {
+    // Prepare
+    const logGroupName = '/aws/lambda/Metrics-20-x86-132f7';
+    cwClient.on(DescribeLogGroupsCommand).resolves({
+      logGroups: [buildLogGroup(logGroupName)],
+    });
+    mockSchedule({
+      logGroupName,
+      awsRegion: 'eu-west-1',
+      ruleName: 'metrics',
+      dryRun: true,
+    });
+    schedulerClient.on(CreateScheduleCommand).resolves({});
+
+    // Act
+    const result = await handler({}, context);
+
+    // Assess
+    expect(result).toEqual(
+      expect.objectContaining({ alreadyScheduled: 0, scheduled: 1 })
+    );
+  });
+
+  it('skips log groups whose deletion was cancelled', async () => {
+    // Prepare
+    const creationTime = Date.parse('2024-10-10T13:26:07Z');
+    cwClient.on(DescribeLogGroupsCommand).resolves({
+      logGroups: [
+        buildLogGroup('/aws/lambda/Metrics-20-x86-132f7', { creationTime }),
+      ],
+    });
+    documentClient.on(GetCommand).resolves({
+      Item: {
+        state: 'SKIPPED',
+        reason: 'Deletion cancelled through the goober CLI',
+        creationTime,
+        hold: 'cancelled',
+      },
+    });
+
+    // Act
+    const result = await handler({}, context);
+
+    // Assess
+    expect(result).toEqual(
+      expect.objectContaining({ skipped: 1, scheduled: 0, enqueued: 0 })
+    );
+    expect(schedulerClient).not.toReceiveCommand(CreateScheduleCommand);
+    expect(sqsClient).not.toReceiveCommand(SendMessageCommand);
+  });
+
+  it('skips log groups of an archive rule outside of the region of the archive bucket', async () => {
+    // Prepare
+    cwClient.on(DescribeLogGroupsCommand).resolves({
+      logGroups: [buildLogGroup('/aws/lambda/Archived-20-x86-132f7')],
+    });
+
+    // Act
+    const result = await handler({ regions: ['us-east-1'] }, context);
+
+    // Assess
+    expect(result.skipped).toBe(1);
+    expect(schedulerClient).not.toReceiveCommand(CreateScheduleCommand);
+    expect(sqsClient).not.toReceiveCommand(SendMessageCommand);
+  });
+
+  it('skips never-expiring log groups without notifying', async () => {
+    // Prepare
+    cwClient.on(DescribeLogGroupsCommand).resolves({
+      logGroups: [
+        buildLogGroup('/aws/lambda/Metrics-20-x86-132f7', {
+          retentionInDays: undefined,
+        }),
+      ],
+    });
+
+    // Act
+    const result = await handler({}, context);
+
+    // Assess
+    expect(result.skipped).toBe(1);
+    expect(schedulerClient).not.toReceiveCommand(CreateScheduleCommand);
+    expect(lambdaClient).not.toReceiveCommand(InvokeCommand);
+  });
+
+  it('sweeps the regions and resumes from the token of the event', async () => {
+    // Prepare
+    cwClient.on(DescribeLogGroupsCommand).resolves({ logGroups: [] });
+
+    // Act
+    await handler(
+      { regions: ['us-east-1', 'eu-central-1'], nextToken: 'token-1' },
+      { ...context, getRemainingTimeInMillis: () => 900_000 }
+    );
+
+    // Assess
+    expect(cwClient).toReceiveCommandTimes(DescribeLogGroupsCommand, 2);
+    expect(cwClient).toReceiveNthCommandWith(DescribeLogGroupsCommand, 1, {
+      nextToken: 'token-1',
+    });
+    expect(cwClient).toReceiveNthCommandWith(DescribeLogGroupsCommand, 2, {
+      nextToken: undefined,
+    });
+  });
+
+  it('hands over the remaining work before the function times out', async () => {
+    // Prepare - the test context reports less time left than the threshold
+    cwClient
+      .on(DescribeLogGroupsCommand)
+      .resolves({ logGroups: [], nextToken: 'token-2' });
+    lambdaClient.on(InvokeCommand).resolves({});
+
+    // Act
+    const result = await handler(
+      { regions: ['eu-west-1', 'us-east-1'] },
+      context
+    );
+
+    // Assess
+    expect(result.continued).toBe(true);
+    expect(cwClient).toReceiveCommandTimes(DescribeLogGroupsCommand, 1);
+    expect(lambdaClient).toReceiveCommandWith(InvokeCommand, {
+      FunctionName: 'foo-bar-function',
+      InvocationType: 'Event',
+      Payload: JSON.stringify({
+        regions: ['eu-west-1', 'us-east-1'],
+        nextToken: 'token-2',
+      }),
+    });
+  });
+
+  it('hands over the next regions when a region finishes close to the timeout', async () => {
+    // Prepare - the test context reports less time left than the threshold
+    cwClient.on(DescribeLogGroupsCommand).resolves({ logGroups: [] });
+    lambdaClient.on(InvokeCommand).resolves({});
+
+    // Act
+    const result = await handler(
+      { regions: ['eu-west-1', 'us-east-1', 'eu-central-1'] },
+      context
+    );
+
+    // Assess
+    expect(result.continued).toBe(true);
+    expect(cwClient).toReceiveCommandTimes(DescribeLogGroupsCommand, 1);
+    expect(lambdaClient).toReceiveCommandWith(InvokeCommand, {
+      FunctionName: 'foo-bar-function',
+      InvocationType: 'Event',
+      Payload: JSON.stringify({ regions: ['us-east-1', 'eu-central-1'] }),
+    });
+  });
+});
@@ -20,6 +20,7 @@ export default defineConfig({
         ...coverageConfigDefaults.exclude,
         'src/types.ts',
         'src/stack.ts',
+        'src/goober.ts',
       ],
     },
   },